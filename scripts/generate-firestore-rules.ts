@@ -0,0 +1,8 @@
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { buildFirestoreRules } from '../src/utils/firestoreRules';
+
+// Regenerate firestore.rules after changing the permission model in src/utils/roles.ts
+const output = resolve(__dirname, '..', 'firestore.rules');
+writeFileSync(output, buildFirestoreRules());
+console.log(`Wrote ${output}`);
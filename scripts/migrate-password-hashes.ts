@@ -0,0 +1,24 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '../src/utils/firebaseAdmin';
+import { setPasswordHash } from '../src/utils/credentials';
+
+// Move bcrypt hashes off the readable users documents into userCredentials (sign-in also does this per user)
+const migrate = async () => {
+  const snapshot = await adminDb.collection('users').get();
+  const legacy = snapshot.docs.filter((d) => 'password' in d.data());
+  for (const userDoc of legacy) {
+    const { password } = userDoc.data();
+    if (password) {
+      await setPasswordHash(userDoc.id, password);
+    } else {
+      // Imported users were saved with an empty password until they used their setup link
+      await userDoc.ref.update({ password: FieldValue.delete() });
+    }
+  }
+  console.log(`Moved the password field off ${legacy.length} of ${snapshot.size} users`);
+};
+
+migrate().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/utils/firebaseAdmin';
+import { getRequestSession } from '@/utils/session';
+import { getRequiredTwoFactorRoles, twoFactorRef, verifySecondFactor } from '@/utils/twoFactor';
+
+// POST /api/auth/2fa/disable - turn 2FA off (requires a valid code, not allowed when policy requires it)
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  // Impersonation sessions are read-only
+  if (session.impersonation) {
+    return NextResponse.json({ error: 'Not available while viewing as another user' }, { status: 403 });
+  }
+  const { code } = await request.json().catch(() => ({}));
+  try {
+    if ((await getRequiredTwoFactorRoles()).includes(session.role)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is mandatory for your role' },
+        { status: 403 }
+      );
+    }
+    if (!code || !(await verifySecondFactor(session.userId, code))) {
+      return NextResponse.json({ error: 'Invalid authentication code' }, { status: 400 });
+    }
+    const batch = adminDb.batch();
+    batch.delete(twoFactorRef(session.userId));
+    batch.update(adminDb.collection('users').doc(session.userId), { twoFactorEnabled: false });
+    await batch.commit();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to disable 2FA:', error);
+    return NextResponse.json({ error: 'Failed to disable two-factor authentication' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/utils/firebaseAdmin';
+import { getRequestSession, setSessionCookie } from '@/utils/session';
+import { generateBackupCodes, hashBackupCode, verifyTotp } from '@/utils/totp';
+import { getTwoFactorRecord, twoFactorRef } from '@/utils/twoFactor';
+
+// POST /api/auth/2fa/enable - confirm enrollment with a code and issue backup codes
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  // Impersonation sessions are read-only
+  if (session.impersonation) {
+    return NextResponse.json({ error: 'Not available while viewing as another user' }, { status: 403 });
+  }
+  const { code } = await request.json().catch(() => ({}));
+  try {
+    const record = await getTwoFactorRecord(session.userId);
+    if (!record?.pendingSecret) {
+      return NextResponse.json({ error: 'Please start two-factor setup first' }, { status: 400 });
+    }
+    if (!code || !verifyTotp(record.pendingSecret, code)) {
+      return NextResponse.json({ error: 'Invalid authentication code' }, { status: 400 });
+    }
+
+    const backupCodes = generateBackupCodes();
+    const batch = adminDb.batch();
+    batch.set(twoFactorRef(session.userId), {
+      enabled: true,
+      secret: record.pendingSecret,
+      pendingSecret: FieldValue.delete(),
+      backupCodes: backupCodes.map(hashBackupCode),
+      enabledAt: new Date().toISOString(),
+    }, { merge: true });
+    // Flag on the user document so the dashboard can show who is enrolled
+    batch.update(adminDb.collection('users').doc(session.userId), { twoFactorEnabled: true });
+    await batch.commit();
+
+    // Re-issue the session without the enrollment requirement
+    const { userId, role, departmentId } = session;
+    const response = NextResponse.json({ backupCodes });
+    await setSessionCookie(response, { userId, role, departmentId });
+    return response;
+  } catch (error) {
+    console.error('Failed to enable 2FA:', error);
+    return NextResponse.json({ error: 'Failed to enable two-factor authentication' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/utils/session';
+import { getRequiredTwoFactorRoles, getTwoFactorRecord } from '@/utils/twoFactor';
+
+// GET /api/auth/2fa - 2FA status for the signed-in user
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  try {
+    const [record, requiredRoles] = await Promise.all([
+      getTwoFactorRecord(session.userId),
+      getRequiredTwoFactorRoles(),
+    ]);
+    return NextResponse.json({
+      enabled: !!record?.enabled,
+      required: requiredRoles.includes(session.role),
+      backupCodesRemaining: record?.backupCodes?.length ?? 0,
+    });
+  } catch (error) {
+    console.error('Failed to load 2FA status:', error);
+    return NextResponse.json({ error: 'Failed to load 2FA status' }, { status: 500 });
+  }
+}
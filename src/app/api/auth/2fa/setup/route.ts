@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import { adminDb } from '@/utils/firebaseAdmin';
+import { getRequestSession } from '@/utils/session';
+import { buildOtpAuthUrl, generateTotpSecret } from '@/utils/totp';
+import { getTwoFactorRecord, twoFactorRef } from '@/utils/twoFactor';
+
+// POST /api/auth/2fa/setup - start enrollment by generating a secret and its QR code
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  // Impersonation sessions are read-only
+  if (session.impersonation) {
+    return NextResponse.json({ error: 'Not available while viewing as another user' }, { status: 403 });
+  }
+  try {
+    if ((await getTwoFactorRecord(session.userId))?.enabled) {
+      return NextResponse.json({ error: 'Two-factor authentication is already enabled' }, { status: 400 });
+    }
+    const username = (await adminDb.collection('users').doc(session.userId).get()).data()?.username ?? session.userId;
+    const secret = generateTotpSecret();
+    const otpauthUrl = buildOtpAuthUrl(username, secret);
+    await twoFactorRef(session.userId).set({ enabled: false, pendingSecret: secret }, { merge: true });
+    return NextResponse.json({ secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) });
+  } catch (error) {
+    console.error('Failed to start 2FA setup:', error);
+    return NextResponse.json({ error: 'Failed to start two-factor setup' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/utils/firebaseAdmin';
+import { getRequestSession } from '@/utils/session';
+
+// GET /api/auth/firebase-token - custom token for the client SDK, carrying the claims firestore.rules checks
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  // Users still enrolling in 2FA get no data access until they finish
+  if (session.twoFactorSetupRequired) {
+    return NextResponse.json({ error: 'Two-factor setup required' }, { status: 403 });
+  }
+
+  try {
+    const token = await adminAuth.createCustomToken(session.userId, {
+      role: session.role,
+      departmentId: session.departmentId,
+      // "View as" sessions may read but never write
+      readOnly: !!session.impersonation,
+    });
+    return NextResponse.json({ token });
+  } catch (error) {
+    console.error('Failed to create Firebase token:', error);
+    return NextResponse.json({ error: 'Failed to create Firebase token' }, { status: 500 });
+  }
+}
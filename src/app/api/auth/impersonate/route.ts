@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/utils/firebaseAdmin';
+import { getRequestSession, sessionCookieOptions, SESSION_COOKIE, setSessionCookie } from '@/utils/session';
+
+// POST /api/auth/impersonate - admin starts a read-only "view as" session for another user
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  if (session.role !== 'admin' || session.impersonation) {
+    return NextResponse.json({ error: 'Only administrators can view as another user' }, { status: 403 });
+  }
+
+  const { userId } = await request.json().catch(() => ({}));
+  if (!userId || userId === session.userId) {
+    return NextResponse.json({ error: 'Please choose another user' }, { status: 400 });
+  }
+
+  try {
+    const userSnap = await adminDb.collection('users').doc(userId).get();
+    if (!userSnap.exists) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    const target = userSnap.data()!;
+
+    // Every impersonation session is audited
+    const log = await adminDb.collection('impersonationLogs').add({
+      adminId: session.userId,
+      targetUserId: userId,
+      targetUsername: target.username,
+      targetRole: target.role,
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+    });
+
+    const response = NextResponse.json({ success: true });
+    await setSessionCookie(response, {
+      userId,
+      role: target.role,
+      departmentId: target.departmentId ?? '',
+      impersonation: { adminId: session.userId, logId: log.id, username: target.username },
+    });
+    return response;
+  } catch (error) {
+    console.error('Failed to start impersonation:', error);
+    return NextResponse.json({ error: 'Failed to view as this user' }, { status: 500 });
+  }
+}
+
+// DELETE /api/auth/impersonate - end the "view as" session and restore the admin's own session
+export async function DELETE(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session?.impersonation) {
+    return NextResponse.json({ error: 'Not viewing as another user' }, { status: 400 });
+  }
+
+  try {
+    const { adminId, logId } = session.impersonation;
+    const admin = (await adminDb.collection('users').doc(adminId).get()).data();
+    await adminDb.collection('impersonationLogs').doc(logId).update({ endedAt: new Date().toISOString() });
+
+    // Never fall back to an admin session for an account that no longer exists; sign out instead
+    if (!admin?.role) {
+      const response = NextResponse.json({ error: 'Your account no longer exists' }, { status: 403 });
+      response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0));
+      return response;
+    }
+
+    const response = NextResponse.json({ success: true });
+    await setSessionCookie(response, {
+      userId: adminId,
+      role: admin.role,
+      departmentId: admin.departmentId ?? '',
+    });
+    return response;
+  } catch (error) {
+    console.error('Failed to end impersonation:', error);
+    return NextResponse.json({ error: 'Failed to return to your account' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcryptjs';
+import { adminDb } from '@/utils/firebaseAdmin';
+import {
+  createSessionToken,
+  sessionCookieOptions,
+  setSessionCookie,
+  TWO_FACTOR_COOKIE,
+  TWO_FACTOR_MAX_AGE,
+} from '@/utils/session';
+import { clearFailedAttempts, getActiveLockout, getClientIp, recordFailedAttempt } from '@/utils/loginThrottle';
+import { getRequiredTwoFactorRoles, getTwoFactorRecord } from '@/utils/twoFactor';
+import { getPasswordHash, setPasswordHash } from '@/utils/credentials';
+
+// Same message for unknown users and wrong passwords so accounts cannot be enumerated
+const INVALID_CREDENTIALS = 'Invalid username or password';
+
+// POST /api/auth/login - verify credentials and issue the session cookie
+export async function POST(request: NextRequest) {
+  const { username, password } = await request.json().catch(() => ({}));
+  if (!username || !password) {
+    return NextResponse.json({ error: 'Username and password are required' }, { status: 400 });
+  }
+
+  const ip = getClientIp(request);
+
+  try {
+    const lockedUntil = await getActiveLockout(username, ip);
+    if (lockedUntil) {
+      return NextResponse.json(
+        { error: `Too many failed attempts. Please try again after ${lockedUntil.toLocaleTimeString()}.` },
+        { status: 429 }
+      );
+    }
+
+    const snapshot = await adminDb.collection('users').where('username', '==', username).limit(1).get();
+    const userDoc = snapshot.docs[0];
+    const userData = userDoc?.data();
+
+    // Pending-setup accounts have no password yet, so they fail here too
+    const hash = userDoc ? await getPasswordHash(userDoc.id, userData) : null;
+    const isMatch = hash ? await bcrypt.compare(password, hash) : false;
+    if (!userDoc || !userData || !isMatch) {
+      await recordFailedAttempt(username, ip);
+      return NextResponse.json({ error: INVALID_CREDENTIALS }, { status: 401 });
+    }
+    await clearFailedAttempts(username);
+    // Hashes stored on the users document by older versions move to userCredentials on the next sign-in
+    if (userData.password) {
+      await setPasswordHash(userDoc.id, userData.password);
+    }
+
+    const session = {
+      userId: userDoc.id,
+      role: userData.role,
+      departmentId: userData.departmentId ?? '',
+    };
+
+    // Enrolled users must pass the second step before a session is issued
+    const twoFactor = await getTwoFactorRecord(userDoc.id);
+    if (twoFactor?.enabled) {
+      const challenge = await createSessionToken(session, TWO_FACTOR_MAX_AGE, '2fa_challenge');
+      const response = NextResponse.json({ twoFactorRequired: true });
+      response.cookies.set(TWO_FACTOR_COOKIE, challenge, sessionCookieOptions(TWO_FACTOR_MAX_AGE));
+      return response;
+    }
+
+    // Roles the 2FA policy covers are sent to enrollment before they can use the dashboard
+    const twoFactorSetupRequired = (await getRequiredTwoFactorRoles()).includes(userData.role);
+    const response = NextResponse.json({ user: { ...session, twoFactorSetupRequired } });
+    await setSessionCookie(response, { ...session, twoFactorSetupRequired });
+    return response;
+  } catch (error) {
+    console.error('Login failed:', error);
+    return NextResponse.json({ error: 'Login failed, please try again' }, { status: 500 });
+  }
+}
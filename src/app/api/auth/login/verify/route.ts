@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/utils/firebaseAdmin';
+import { sessionCookieOptions, setSessionCookie, TWO_FACTOR_COOKIE, verifySessionToken } from '@/utils/session';
+import { getActiveLockout, getClientIp, recordFailedAttempt } from '@/utils/loginThrottle';
+import { verifySecondFactor } from '@/utils/twoFactor';
+
+// POST /api/auth/login/verify - second login step: check the TOTP or backup code
+export async function POST(request: NextRequest) {
+  const challenge = await verifySessionToken(request.cookies.get(TWO_FACTOR_COOKIE)?.value, '2fa_challenge');
+  if (!challenge) {
+    return NextResponse.json({ error: 'Your sign-in has expired, please log in again' }, { status: 401 });
+  }
+  const { code } = await request.json().catch(() => ({}));
+  if (!code) {
+    return NextResponse.json({ error: 'Please enter your authentication code' }, { status: 400 });
+  }
+
+  const ip = getClientIp(request);
+  try {
+    // Guesses at the code count towards the same lockout as password guesses
+    const username = (await adminDb.collection('users').doc(challenge.userId).get()).data()?.username ?? '';
+    const lockedUntil = await getActiveLockout(username, ip);
+    if (lockedUntil) {
+      return NextResponse.json(
+        { error: `Too many failed attempts. Please try again after ${lockedUntil.toLocaleTimeString()}.` },
+        { status: 429 }
+      );
+    }
+    if (!(await verifySecondFactor(challenge.userId, code))) {
+      await recordFailedAttempt(username, ip);
+      return NextResponse.json({ error: 'Invalid authentication code' }, { status: 401 });
+    }
+
+    const { userId, role, departmentId } = challenge;
+    const response = NextResponse.json({ user: { userId, role, departmentId } });
+    await setSessionCookie(response, { userId, role, departmentId });
+    response.cookies.set(TWO_FACTOR_COOKIE, '', sessionCookieOptions(0));
+    return response;
+  } catch (error) {
+    console.error('2FA verification failed:', error);
+    return NextResponse.json({ error: 'Verification failed, please try again' }, { status: 500 });
+  }
+}
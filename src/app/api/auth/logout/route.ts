@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/utils/firebaseAdmin';
+import { getRequestSession, sessionCookieOptions, SESSION_COOKIE } from '@/utils/session';
+
+// POST /api/auth/logout - clear the session cookie
+export async function POST(request: NextRequest) {
+  // Logging out while viewing as another user also closes the impersonation log entry
+  const session = await getRequestSession(request);
+  if (session?.impersonation) {
+    await adminDb
+      .collection('impersonationLogs')
+      .doc(session.impersonation.logId)
+      .update({ endedAt: new Date().toISOString() })
+      .catch((error) => console.error('Failed to close impersonation log:', error));
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0));
+  return response;
+}
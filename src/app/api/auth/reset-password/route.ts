@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcryptjs';
+import { adminDb } from '@/utils/firebaseAdmin';
+import { hashResetToken } from '@/utils/resetTokens';
+import { setPasswordHash } from '@/utils/credentials';
+
+// Look up a reset token that is still unused and not expired
+const findValidReset = async (token?: string | null) => {
+  if (!token) return null;
+  const snapshot = await adminDb
+    .collection('passwordResets')
+    .where('tokenHash', '==', hashResetToken(token))
+    .limit(1)
+    .get();
+  if (snapshot.empty) return null;
+  const resetDoc = snapshot.docs[0];
+  const reset = resetDoc.data();
+  if (reset.used || new Date(reset.expiresAt).getTime() < Date.now()) return null;
+  return { ref: resetDoc.ref, userId: reset.userId as string };
+};
+
+// GET /api/auth/reset-password?token=... - check a link before showing the form
+export async function GET(request: NextRequest) {
+  try {
+    const reset = await findValidReset(request.nextUrl.searchParams.get('token'));
+    if (!reset) {
+      return NextResponse.json({ error: 'This link is invalid or has expired' }, { status: 400 });
+    }
+    const userSnap = await adminDb.collection('users').doc(reset.userId).get();
+    return NextResponse.json({ username: userSnap.data()?.username ?? '' });
+  } catch (error) {
+    console.error('Failed to check reset token:', error);
+    return NextResponse.json({ error: 'Failed to check link' }, { status: 500 });
+  }
+}
+
+// POST /api/auth/reset-password - consume the token and store a fresh bcrypt hash
+export async function POST(request: NextRequest) {
+  const { token, password } = await request.json().catch(() => ({}));
+  if (!password || password.length < 6) {
+    return NextResponse.json({ error: 'Password must be at least 6 characters long' }, { status: 400 });
+  }
+
+  try {
+    const reset = await findValidReset(token);
+    if (!reset) {
+      return NextResponse.json({ error: 'This link is invalid or has expired' }, { status: 400 });
+    }
+    const hashedPassword = await bcrypt.hash(password, 10);
+    // Claim the token first so a link can't set the password twice
+    await adminDb.runTransaction(async (tx) => {
+      const fresh = await tx.get(reset.ref);
+      if (fresh.data()?.used) {
+        throw new Error('Reset token already used');
+      }
+      tx.update(reset.ref, { used: true, usedAt: new Date().toISOString() });
+    });
+    await setPasswordHash(reset.userId, hashedPassword, { status: 'active' });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to reset password:', error);
+    return NextResponse.json({ error: 'Failed to set password' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/utils/firebaseAdmin';
+import { canEditUser } from '@/utils/roles';
+import { getPermissionMatrix } from '@/utils/permissions';
+import { getRequestSession } from '@/utils/session';
+import { generateResetToken, RESET_TOKEN_TTL_MS } from '@/utils/resetTokens';
+
+// POST /api/auth/reset-token - generate a one-time password reset/setup link for a user
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  // Impersonation sessions are read-only
+  if (session.impersonation) {
+    return NextResponse.json({ error: 'Not available while viewing as another user' }, { status: 403 });
+  }
+
+  const { userId } = await request.json().catch(() => ({}));
+  if (!userId) {
+    return NextResponse.json({ error: 'A user is required' }, { status: 400 });
+  }
+
+  try {
+    const permissions = await getPermissionMatrix();
+    if (!permissions[session.role]?.canManageUsers) {
+      return NextResponse.json({ error: 'You do not have permission to manage users' }, { status: 403 });
+    }
+    const userSnap = await adminDb.collection('users').doc(userId).get();
+    if (!userSnap.exists) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    const target = userSnap.data()!;
+    if (!canEditUser(permissions, session.role, target.role, session.departmentId, target.departmentId)) {
+      return NextResponse.json({ error: 'You cannot reset this user\'s password' }, { status: 403 });
+    }
+
+    // Invalidate any earlier unused links for this user
+    const previous = await adminDb
+      .collection('passwordResets')
+      .where('userId', '==', userId)
+      .where('used', '==', false)
+      .get();
+    const batch = adminDb.batch();
+    previous.docs.forEach((d) => batch.update(d.ref, { used: true }));
+
+    const { token, tokenHash } = generateResetToken();
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString();
+    batch.set(adminDb.collection('passwordResets').doc(), {
+      userId,
+      tokenHash,
+      expiresAt,
+      used: false,
+      createdBy: session.userId,
+      createdAt: new Date().toISOString(),
+    });
+    await batch.commit();
+
+    const link = `${request.nextUrl.origin}/?resetToken=${token}`;
+    return NextResponse.json({ link, expiresAt });
+  } catch (error) {
+    console.error('Failed to create reset token:', error);
+    return NextResponse.json({ error: 'Failed to create reset link' }, { status: 500 });
+  }
+}
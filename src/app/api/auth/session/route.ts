@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/utils/session';
+
+// GET /api/auth/session - return the signed-in user's session (never the user document)
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ user: null }, { status: 401 });
+  }
+  const { userId, role, departmentId, twoFactorSetupRequired, impersonation } = session;
+  return NextResponse.json({
+    user: {
+      userId,
+      role,
+      departmentId,
+      twoFactorSetupRequired: !!twoFactorSetupRequired,
+      impersonating: impersonation ? { username: impersonation.username } : null,
+    },
+  });
+}
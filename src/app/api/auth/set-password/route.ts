@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcryptjs';
+import { adminDb } from '@/utils/firebaseAdmin';
+import { canEditUser } from '@/utils/roles';
+import { getPermissionMatrix } from '@/utils/permissions';
+import { getRequestSession } from '@/utils/session';
+import { setPasswordHash } from '@/utils/credentials';
+
+// POST /api/auth/set-password - set the initial password of a user created in the Users tab
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  // Impersonation sessions are read-only
+  if (session.impersonation) {
+    return NextResponse.json({ error: 'Not available while viewing as another user' }, { status: 403 });
+  }
+
+  const { userId, password } = await request.json().catch(() => ({}));
+  if (!userId) {
+    return NextResponse.json({ error: 'A user is required' }, { status: 400 });
+  }
+  if (!password || password.length < 6) {
+    return NextResponse.json({ error: 'Password must be at least 6 characters long' }, { status: 400 });
+  }
+
+  try {
+    const permissions = await getPermissionMatrix();
+    if (!permissions[session.role]?.canManageUsers) {
+      return NextResponse.json({ error: 'You do not have permission to manage users' }, { status: 403 });
+    }
+    const userSnap = await adminDb.collection('users').doc(userId).get();
+    if (!userSnap.exists) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    const target = userSnap.data()!;
+    if (!canEditUser(permissions, session.role, target.role, session.departmentId, target.departmentId)) {
+      return NextResponse.json({ error: 'You cannot set this user\'s password' }, { status: 403 });
+    }
+
+    await setPasswordHash(userId, await bcrypt.hash(password, 10), { status: 'active' });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to set password:', error);
+    return NextResponse.json({ error: 'Failed to set password' }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPermissionMatrix } from '@/utils/permissions';
+import { getRequestSession } from '@/utils/session';
+
+// GET /api/permissions - live permission matrix (read by the middleware, which cannot use the Admin SDK)
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  try {
+    return NextResponse.json({ permissions: await getPermissionMatrix() });
+  } catch (error) {
+    console.error('Failed to load permissions:', error);
+    return NextResponse.json({ error: 'Failed to load permissions' }, { status: 500 });
+  }
+}
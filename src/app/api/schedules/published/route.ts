@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/utils/firebaseAdmin';
+import { AcademicTerm, getCurrentTerm, isInTerm } from '@/utils/academicTerms';
+import { isPublishedSchedule, ScheduleDraft } from '@/utils/scheduleDrafts';
+import { getRequestSession } from '@/utils/session';
+
+// GET /api/schedules/published?termId= - a term's live timetable, for users the rules only let
+// list their own entries (they cannot check each entry's draft inside a query)
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  const termId = request.nextUrl.searchParams.get('termId') ?? '';
+  try {
+    const [termSnap, draftSnap, scheduleSnap] = await Promise.all([
+      adminDb.collection('academicTerms').get(),
+      adminDb.collection('scheduleDrafts').get(),
+      adminDb.collection('schedules').get(),
+    ]);
+    const currentTermId = getCurrentTerm(termSnap.docs.map((d) => ({ ...d.data(), id: d.id } as AcademicTerm)))?.id;
+    const termDrafts = draftSnap.docs
+      .map((d) => ({ ...d.data(), id: d.id } as ScheduleDraft))
+      .filter((d) => isInTerm(d, termId, currentTermId));
+    const schedules = scheduleSnap.docs
+      .map((d) => ({ ...d.data(), id: d.id } as { id: string; termId?: string; draftId?: string }))
+      .filter((s) => isInTerm(s, termId, currentTermId) && isPublishedSchedule(s, termDrafts));
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error('Failed to load the published timetable:', error);
+    return NextResponse.json({ error: 'Failed to load the published timetable' }, { status: 500 });
+  }
+}
@@ -1,7 +1,10 @@
 // DashboardPage.tsx
 'use client';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useUserRole } from '@/hooks/useUserRole';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getDefaultArea } from '@/utils/roles';
+import { useAcademicTerms } from '@/hooks/useAcademicTerms';
 import UserManagement from '@/components/UserManagement';
 import SubjectManagement from '@/components/SubjectManagement';
 import ScheduleManagement from '@/components/ScheduleManagement';
@@ -11,21 +14,53 @@ import { motion } from 'framer-motion';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import DashboardLayout from '@/components/DashboardLayout';
 import CalendarManagement from '@/components/CalendarManagement';
+import AccountRequestManagement, { AccountRequest } from '@/components/AccountRequestManagement';
+import SecuritySettings from '@/components/SecuritySettings';
+import RolePermissionsManagement from '@/components/RolePermissionsManagement';
+import RoomManagement from '@/components/RoomManagement';
+import SectionManagement from '@/components/SectionManagement';
+import QualificationManagement from '@/components/QualificationManagement';
+
+const TERM_STORAGE_KEY = 'mcti_term';
 
 export default function DashboardPage() {
   // Assume useUserRole returns role, departmentId, userId and loading.
-  const { role, departmentId, userId, loading } = useUserRole();
+  const { role, departmentId, userId, twoFactorSetupRequired, impersonating, clearTwoFactorSetupRequired, loading } =
+    useUserRole();
+  const { permissions, loading: permissionsLoading } = usePermissions();
   const [activeTab, setActiveTab] = useState('schedule');
+  // The landing tab is picked once, so later permission edits don't move the user
+  const landed = useRef(false);
+  // Approved account request used to pre-fill the create user form
+  const [userPrefill, setUserPrefill] = useState<AccountRequest | null>(null);
+  const { terms, currentTermId } = useAcademicTerms();
+  // Term picked in the header switcher, remembered per browser; defaults to the current term
+  const [selectedTermId, setSelectedTermId] = useState('');
+  const termId = terms.some((t) => t.id === selectedTermId) ? selectedTermId : currentTermId;
   const router = useRouter();
 
   useEffect(() => {
     if (!loading && !role) router.push('/');
-    if (!loading && role === 'teacher') {
-      setActiveTab('approve');
+    if (!loading && role && !permissionsLoading && !landed.current) {
+      landed.current = true;
+      setActiveTab(getDefaultArea(permissions, role));
+    }
+    // Mandatory 2FA: nothing else is available until the user has enrolled
+    if (!loading && twoFactorSetupRequired) {
+      setActiveTab('security');
     }
-  }, [role, loading, router]);
+  }, [role, loading, permissions, permissionsLoading, twoFactorSetupRequired, router]);
+
+  useEffect(() => {
+    setSelectedTermId(localStorage.getItem(TERM_STORAGE_KEY) ?? '');
+  }, []);
+
+  const handleTermChange = (id: string) => {
+    localStorage.setItem(TERM_STORAGE_KEY, id);
+    setSelectedTermId(id);
+  };
 
-  if (loading || !role) {
+  if (loading || !role || permissionsLoading) {
     return (
       <div className="flex h-screen items-center justify-center bg-gray-50">
         <motion.div 
@@ -42,26 +77,81 @@ export default function DashboardPage() {
   }
 
   return (
-    <DashboardLayout role={role} activeTab={activeTab} setActiveTab={setActiveTab}>
+    <DashboardLayout
+      role={role}
+      activeTab={activeTab}
+      setActiveTab={setActiveTab}
+      restrictToTab={twoFactorSetupRequired ? 'security' : undefined}
+      impersonating={impersonating}
+      terms={terms}
+      termId={termId}
+      onTermChange={handleTermChange}
+    >
       <motion.div 
         initial={{ opacity: 0, y: 20 }} 
         animate={{ opacity: 1, y: 0 }} 
         transition={{ duration: 0.4, ease: 'easeOut' }}
       >
         {activeTab === 'users' && (
-          <UserManagement currentUserRole={role} currentUserDepartment={departmentId ?? ''} />
+          <UserManagement
+            currentUserRole={role}
+            currentUserDepartment={departmentId ?? ''}
+            prefill={userPrefill}
+            onPrefillUsed={() => setUserPrefill(null)}
+          />
         )}
         {activeTab === 'subjects' && (
-          <SubjectManagement currentUserRole={role} currentUserDepartment={departmentId ?? ''} />
+          <SubjectManagement currentUserRole={role} currentUserDepartment={departmentId ?? ''} termId={termId} />
         )}
         {activeTab === 'schedule' && (
-          <ScheduleManagement currentUserRole={role} currentUserDepartment={departmentId ?? ''} />
+          <ScheduleManagement
+            currentUserRole={role}
+            currentUserDepartment={departmentId ?? ''}
+            currentUserId={userId ?? ''}
+            termId={termId}
+          />
         )}
-        {activeTab === 'approve' && role === 'teacher' && userId && (
-          <ApproveScheduleManagement currentUserRole={role} currentUserId={userId ?? ''} />
+        {activeTab === 'approve' && permissions[role]?.canApproveSchedule && userId && (
+          <ApproveScheduleManagement
+            currentUserRole={role}
+            currentUserId={userId ?? ''}
+            currentUserDepartment={departmentId ?? ''}
+            termId={termId}
+          />
         )}
+        {activeTab === 'sections' && (
+          <SectionManagement currentUserRole={role} currentUserDepartment={departmentId ?? ''} />
+        )}
+        {activeTab === 'qualifications' && (
+          <QualificationManagement
+            currentUserRole={role}
+            currentUserDepartment={departmentId ?? ''}
+            currentUserId={userId ?? ''}
+          />
+        )}
+        {activeTab === 'rooms' && <RoomManagement currentUserRole={role} />}
         {activeTab === 'calendar' && (
-          <CalendarManagement currentUser={{ role }}/>
+          <CalendarManagement currentUser={{ role, departmentId: departmentId ?? '' }} termId={termId} />
+        )}
+        {activeTab === 'roles' && (
+          <RolePermissionsManagement currentUserRole={role} />
+        )}
+        {activeTab === 'security' && (
+          <SecuritySettings
+            currentUserRole={role}
+            setupRequired={twoFactorSetupRequired}
+            onEnrolled={clearTwoFactorSetupRequired}
+          />
+        )}
+        {activeTab === 'requests' && (
+          <AccountRequestManagement
+            currentUserRole={role}
+            currentUserId={userId ?? ''}
+            onApprove={(request) => {
+              setUserPrefill(request);
+              setActiveTab('users');
+            }}
+          />
         )}
       </motion.div>
     </DashboardLayout>
@@ -0,0 +1,19 @@
+import Link from 'next/link';
+
+export default function ForbiddenPage() {
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl p-10 shadow-lg text-center max-w-md w-full">
+        <h1 className="text-5xl font-bold text-primary mb-4">403</h1>
+        <h2 className="text-xl font-semibold text-gray-700 mb-2">Access Denied</h2>
+        <p className="text-gray-500 mb-6">Your role does not have permission to view this page.</p>
+        <Link
+          href="/dashboard"
+          className="inline-block bg-primary hover:bg-accent-blue text-white px-6 py-3 rounded-lg transition-colors"
+        >
+          Back to Dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -6,9 +6,8 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Swal from 'sweetalert2';
 import LoadingSpinner from '@/components/LoadingSpinner';
-import { collection, query, where, getDocs } from 'firebase/firestore';
+import { collection, addDoc, getDocs } from 'firebase/firestore';
 import { db } from '@/utils/firebase';
-import bcrypt from 'bcryptjs';
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -35,35 +34,60 @@ export default function LoginPage() {
   const [password, setPassword] = useState('');
   const [showContactAdmin, setShowContactAdmin] = useState(false);
   const [message, setMessage] = useState('');
+  // "message" for Contact Admin, "account_request" for Request Account
+  const [contactType, setContactType] = useState<'message' | 'account_request'>('message');
+  const [contactForm, setContactForm] = useState({ name: '', email: '', departmentId: '' });
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
   const [isMounted, setIsMounted] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Password reset / first-login setup (opened from a one-time link)
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [resetUsername, setResetUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  // Second login step for accounts with two-factor authentication
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
   const router = useRouter();
 
   useEffect(() => {
     setIsMounted(true);
+    const token = new URLSearchParams(window.location.search).get('resetToken');
+    if (token) {
+      (async () => {
+        const res = await fetch(`/api/auth/reset-password?token=${encodeURIComponent(token)}`);
+        const data = await res.json();
+        if (!res.ok) {
+          Swal.fire('Link Expired', data.error || 'This link is invalid or has expired', 'error');
+          window.history.replaceState(null, '', '/');
+          return;
+        }
+        setResetUsername(data.username);
+        setResetToken(token);
+      })();
+    }
   }, []);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     try {
-      // Query Firestore for the user with the given username
-      const q = query(collection(db, 'users'), where('username', '==', username));
-      const querySnapshot = await getDocs(q);
-      if (querySnapshot.empty) {
-        throw new Error('User not found');
+      // Credentials are verified on the server, which sets an HTTP-only session cookie
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error);
       }
-      const userDoc = querySnapshot.docs[0];
-      const userData = { ...userDoc.data() as { password: string }, userId: userDoc.id };
-
-      // Compare the provided password with the hashed password stored in Firestore
-      const isMatch = await bcrypt.compare(password, userData.password);
-      if (!isMatch) {
-        throw new Error('Invalid password');
+      if (data.twoFactorRequired) {
+        setTwoFactorCode('');
+        setShowTwoFactor(true);
+        return;
       }
 
-      // If login is successful, store user data in localStorage
-      localStorage.setItem('user', JSON.stringify(userData));
       router.push('/dashboard');
     } catch (error: any) {
       Swal.fire({
@@ -76,14 +100,111 @@ export default function LoginPage() {
     }
   };
 
-  const handleContactAdmin = () => {
-    Swal.fire({
-      icon: 'success',
-      title: 'Message Sent!',
-      text: 'The admin will contact you shortly',
-    });
-    setShowContactAdmin(false);
-    setMessage('');
+  const handleVerifyTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/auth/login/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: twoFactorCode }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+      setShowTwoFactor(false);
+      router.push('/dashboard');
+    } catch (error: any) {
+      Swal.fire('Verification Failed', error.message || 'Invalid authentication code', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword.length < 6) {
+      Swal.fire('Warning', 'Password must be at least 6 characters long', 'warning');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      Swal.fire('Warning', 'Passwords do not match', 'warning');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: resetToken, password: newPassword }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+      Swal.fire('Password Set!', 'You can now sign in with your new password', 'success');
+      setUsername(resetUsername);
+      setResetToken(null);
+      setNewPassword('');
+      setConfirmPassword('');
+      window.history.replaceState(null, '', '/');
+    } catch (error: any) {
+      Swal.fire('Error', error.message || 'Failed to set password', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openContactModal = async (type: 'message' | 'account_request') => {
+    setContactType(type);
+    setShowContactAdmin(true);
+    if (type === 'account_request' && departments.length === 0) {
+      try {
+        const deptSnapshot = await getDocs(collection(db, 'departments'));
+        setDepartments(deptSnapshot.docs.map((d) => ({ id: d.id, name: d.data().name })));
+      } catch (error) {
+        console.error('Failed to load departments', error);
+      }
+    }
+  };
+
+  const handleForgotPassword = () => {
+    setMessage(`I forgot my password${username ? ` for the account "${username}"` : ''}. Please send me a reset link.`);
+    openContactModal('message');
+  };
+
+  const handleContactAdmin = async () => {
+    const { name, email, departmentId } = contactForm;
+    if (!name || !email || !message || (contactType === 'account_request' && !departmentId)) {
+      Swal.fire('Warning', 'Please fill all required fields', 'warning');
+      return;
+    }
+    if (!/\S+@\S+\.\S+/.test(email)) {
+      Swal.fire('Warning', 'Please enter a valid email address', 'warning');
+      return;
+    }
+    try {
+      await addDoc(collection(db, 'accountRequests'), {
+        type: contactType,
+        name,
+        email,
+        departmentId: contactType === 'account_request' ? departmentId : '',
+        message,
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+      });
+      Swal.fire({
+        icon: 'success',
+        title: contactType === 'account_request' ? 'Request Sent!' : 'Message Sent!',
+        text: 'The admin will contact you shortly',
+      });
+      setShowContactAdmin(false);
+      setMessage('');
+      setContactForm({ name: '', email: '', departmentId: '' });
+    } catch (error) {
+      Swal.fire('Error', 'Failed to send your message, please try again', 'error');
+    }
   };
 
   if (!isMounted) return null;
@@ -219,12 +340,20 @@ export default function LoginPage() {
               <motion.div variants={itemVariants} className="flex justify-between items-center">
                 <button
                   type="button"
-                  onClick={() => setShowContactAdmin(true)}
+                  onClick={() => openContactModal('message')}
                   className="text-secondary hover:text-accent-orange transition-colors flex items-center gap-2"
                 >
                   <FontAwesomeIcon icon={faUserShield} />
                   Contact Admin
                 </button>
+                <button
+                  type="button"
+                  onClick={handleForgotPassword}
+                  className="text-accent-blue hover:text-primary transition-colors flex items-center gap-2"
+                >
+                  <FontAwesomeIcon icon={faCircleQuestion} />
+                  Forgot Password?
+                </button>
               </motion.div>
             </motion.form>
           </motion.div>
@@ -246,7 +375,7 @@ export default function LoginPage() {
                 <motion.button
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
-                  onClick={() => setShowContactAdmin(true)}
+                  onClick={() => openContactModal('account_request')}
                   className="px-8 py-3 bg-white/10 backdrop-blur-sm rounded-xl border-2 border-white/20 hover:border-white/40 transition-all"
                 >
                   Request Account
@@ -257,6 +386,90 @@ export default function LoginPage() {
 
           {/* Modals */}
           <AnimatePresence>
+            {showTwoFactor && (
+              <motion.div
+                key="two-factor-modal"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 bg-black/50 flex items-center justify-center p-4"
+              >
+                <motion.div initial={{ scale: 0.9 }} animate={{ scale: 1 }} className="bg-white rounded-2xl p-8 max-w-md w-full shadow-xl relative">
+                  <button onClick={() => setShowTwoFactor(false)} className="absolute top-4 right-4 text-gray-500 hover:text-primary">
+                    ×
+                  </button>
+                  <div className="text-center mb-6">
+                    <FontAwesomeIcon icon={faUserShield} className="text-4xl text-primary mb-4" />
+                    <h3 className="text-2xl font-bold text-primary">Two-Factor Verification</h3>
+                    <p className="text-gray-600 mt-2">Enter the code from your authenticator app or one of your backup codes</p>
+                  </div>
+                  <form onSubmit={handleVerifyTwoFactor} className="space-y-4">
+                    <input
+                      type="text"
+                      autoComplete="one-time-code"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      className="w-full p-4 rounded-xl border-2 border-gray-200 focus:border-primary focus:ring-4 focus:ring-primary/20 transition-all text-center tracking-widest"
+                      placeholder="123456"
+                      required
+                    />
+                    <motion.button
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      type="submit"
+                      disabled={isLoading}
+                      className="w-full bg-primary hover:bg-accent-blue text-white py-3 rounded-xl transition-all font-semibold"
+                    >
+                      Verify
+                    </motion.button>
+                  </form>
+                </motion.div>
+              </motion.div>
+            )}
+            {resetToken && (
+              <motion.div
+                key="set-password-modal"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 bg-black/50 flex items-center justify-center p-4"
+              >
+                <motion.div initial={{ scale: 0.9 }} animate={{ scale: 1 }} className="bg-white rounded-2xl p-8 max-w-md w-full shadow-xl relative">
+                  <div className="text-center mb-6">
+                    <FontAwesomeIcon icon={faLock} className="text-4xl text-primary mb-4" />
+                    <h3 className="text-2xl font-bold text-primary">Set Your Password</h3>
+                    <p className="text-gray-600 mt-2">Choose a password for <b>{resetUsername}</b></p>
+                  </div>
+                  <form onSubmit={handleSetPassword} className="space-y-4">
+                    <input
+                      type="password"
+                      value={newPassword}
+                      onChange={(e) => setNewPassword(e.target.value)}
+                      className="w-full p-4 rounded-xl border-2 border-gray-200 focus:border-primary focus:ring-4 focus:ring-primary/20 transition-all"
+                      placeholder="New password"
+                      required
+                    />
+                    <input
+                      type="password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      className="w-full p-4 rounded-xl border-2 border-gray-200 focus:border-primary focus:ring-4 focus:ring-primary/20 transition-all"
+                      placeholder="Confirm password"
+                      required
+                    />
+                    <motion.button
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      type="submit"
+                      disabled={isLoading}
+                      className="w-full bg-primary hover:bg-accent-blue text-white py-3 rounded-xl transition-all font-semibold"
+                    >
+                      Save Password
+                    </motion.button>
+                  </form>
+                </motion.div>
+              </motion.div>
+            )}
             {showContactAdmin && (
               <motion.div
                 key="contact-admin-modal"
@@ -271,9 +484,39 @@ export default function LoginPage() {
                   </button>
                   <div className="text-center mb-6">
                     <FontAwesomeIcon icon={faUserShield} className="text-4xl text-primary mb-4" />
-                    <h3 className="text-2xl font-bold text-primary">Contact Administrator</h3>
+                    <h3 className="text-2xl font-bold text-primary">
+                      {contactType === 'account_request' ? 'Request an Account' : 'Contact Administrator'}
+                    </h3>
                   </div>
                   <div className="space-y-4">
+                    <input
+                      type="text"
+                      value={contactForm.name}
+                      onChange={(e) => setContactForm({ ...contactForm, name: e.target.value })}
+                      className="w-full p-3 rounded-xl border-2 border-gray-200 focus:border-primary focus:ring-4 focus:ring-primary/20 transition-all"
+                      placeholder="Full name"
+                    />
+                    <input
+                      type="email"
+                      value={contactForm.email}
+                      onChange={(e) => setContactForm({ ...contactForm, email: e.target.value })}
+                      className="w-full p-3 rounded-xl border-2 border-gray-200 focus:border-primary focus:ring-4 focus:ring-primary/20 transition-all"
+                      placeholder="Email address"
+                    />
+                    {contactType === 'account_request' && (
+                      <select
+                        value={contactForm.departmentId}
+                        onChange={(e) => setContactForm({ ...contactForm, departmentId: e.target.value })}
+                        className="w-full p-3 rounded-xl border-2 border-gray-200 focus:border-primary focus:ring-4 focus:ring-primary/20 transition-all"
+                      >
+                        <option value="">Desired Department</option>
+                        {departments.map((dept) => (
+                          <option key={dept.id} value={dept.id}>
+                            {dept.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">Your Message</label>
                       <textarea
@@ -0,0 +1,150 @@
+'use client';
+import DataTable from 'react-data-table-component';
+import { db } from '@/utils/firebase';
+import { addDoc, collection, deleteDoc, doc, getDocs, limit, query, updateDoc, where, writeBatch } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import { AcademicTerm, getTermLabel, SEMESTERS, TERM_STATUS_LABELS } from '@/utils/academicTerms';
+import { useAcademicTerms } from '@/hooks/useAcademicTerms';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPlus } from '@fortawesome/free-solid-svg-icons';
+
+// Swal form shared by "Add Term" and "Edit"
+const termForm = async (title: string, term?: AcademicTerm) => {
+  const { value, isConfirmed } = await Swal.fire({
+    title,
+    html: `<input id="term-year" class="swal2-input" placeholder="School year (e.g. 2026-2027)" value="${term?.schoolYear ?? ''}" />
+      <select id="term-semester" class="swal2-select">
+        ${SEMESTERS.map((s) => `<option value="${s}" ${term?.semester === s ? 'selected' : ''}>${s}</option>`).join('')}
+      </select>
+      <input id="term-start" type="date" class="swal2-input" value="${term?.startDate ?? ''}" />
+      <input id="term-end" type="date" class="swal2-input" value="${term?.endDate ?? ''}" />`,
+    showCancelButton: true,
+    confirmButtonText: 'Save',
+    preConfirm: () => {
+      const schoolYear = (document.getElementById('term-year') as HTMLInputElement).value.trim();
+      const semester = (document.getElementById('term-semester') as HTMLSelectElement).value;
+      const startDate = (document.getElementById('term-start') as HTMLInputElement).value;
+      const endDate = (document.getElementById('term-end') as HTMLInputElement).value;
+      if (!schoolYear || !startDate || !endDate) {
+        Swal.showValidationMessage('School year, start date and end date are required');
+        return false;
+      }
+      if (startDate >= endDate) {
+        Swal.showValidationMessage('The term must end after it starts');
+        return false;
+      }
+      return { schoolYear, semester, startDate, endDate };
+    },
+  });
+  return isConfirmed ? value : null;
+};
+
+// Academic terms list for calendar managers: add, edit, activate and delete terms
+export default function AcademicTermManagement() {
+  const { terms } = useAcademicTerms();
+
+  const handleAdd = async () => {
+    const value = await termForm('Add Term');
+    if (!value) return;
+    try {
+      const term: AcademicTerm = { ...value, status: 'upcoming', createdAt: new Date().toISOString() };
+      await addDoc(collection(db, 'academicTerms'), term);
+      Swal.fire('Success', `${getTermLabel(term)} added`, 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to add term', 'error');
+    }
+  };
+
+  const handleEdit = async (term: AcademicTerm) => {
+    const value = await termForm('Edit Term', term);
+    if (!value) return;
+    try {
+      await updateDoc(doc(db, 'academicTerms', term.id!), value);
+    } catch (error) {
+      Swal.fire('Error', 'Failed to update term', 'error');
+    }
+  };
+
+  // Only one term is active at a time; the previous one is closed
+  const handleActivate = async (term: AcademicTerm) => {
+    const confirmResult = await Swal.fire({
+      title: `Make ${getTermLabel(term)} the active term?`,
+      text: 'The dashboard opens on the active term, and the current active term will be closed.',
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Activate',
+    });
+    if (!confirmResult.isConfirmed) return;
+    try {
+      const batch = writeBatch(db);
+      terms
+        .filter((t) => t.status === 'active' && t.id !== term.id)
+        .forEach((t) => batch.update(doc(db, 'academicTerms', t.id!), { status: 'closed' }));
+      batch.update(doc(db, 'academicTerms', term.id!), { status: 'active' });
+      await batch.commit();
+    } catch (error) {
+      Swal.fire('Error', 'Failed to activate term', 'error');
+    }
+  };
+
+  const handleDelete = async (term: AcademicTerm) => {
+    try {
+      const used = await getDocs(query(collection(db, 'schedules'), where('termId', '==', term.id), limit(1)));
+      if (!used.empty) {
+        Swal.fire('Cannot delete', 'This term has schedule entries. Close it instead.', 'warning');
+        return;
+      }
+      const confirmResult = await Swal.fire({
+        title: 'Are you sure?',
+        text: `This will delete ${getTermLabel(term)}.`,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: 'Yes, delete it!',
+      });
+      if (!confirmResult.isConfirmed) return;
+      await deleteDoc(doc(db, 'academicTerms', term.id!));
+      Swal.fire('Deleted!', 'Term deleted.', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to delete term', 'error');
+    }
+  };
+
+  const columns = [
+    { name: 'Term', selector: (row: AcademicTerm) => getTermLabel(row), sortable: true },
+    { name: 'Start', selector: (row: AcademicTerm) => row.startDate, sortable: true },
+    { name: 'End', selector: (row: AcademicTerm) => row.endDate, sortable: true },
+    { name: 'Status', selector: (row: AcademicTerm) => TERM_STATUS_LABELS[row.status], sortable: true },
+    {
+      name: 'Actions',
+      cell: (row: AcademicTerm) => (
+        <div className="flex gap-2">
+          <button onClick={() => handleEdit(row)} className="text-primary hover:underline">
+            Edit
+          </button>
+          {row.status !== 'active' && (
+            <button onClick={() => handleActivate(row)} className="text-green-600 hover:underline">
+              Activate
+            </button>
+          )}
+          {row.status !== 'active' && (
+            <button onClick={() => handleDelete(row)} className="text-red-500 hover:underline">
+              Delete
+            </button>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-primary">Academic Terms</h2>
+        <button onClick={handleAdd} className="bg-primary hover:bg-accent-blue text-white px-4 py-2 rounded-lg transition-colors">
+          <FontAwesomeIcon icon={faPlus} className="mr-2" /> Add Term
+        </button>
+      </div>
+      <DataTable columns={columns} data={terms} pagination responsive highlightOnHover noDataComponent="No terms yet." />
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+'use client';
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import DataTable from 'react-data-table-component';
+import { db } from '@/utils/firebase';
+import { collection, getDocs, onSnapshot, doc, updateDoc } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import { Role } from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCheck, faXmark, faReply } from '@fortawesome/free-solid-svg-icons';
+import LoadingSpinner from './LoadingSpinner';
+
+export interface AccountRequest {
+  id?: string;
+  type: 'message' | 'account_request';
+  name: string;
+  email: string;
+  departmentId: string;
+  message: string;
+  status: 'pending' | 'approved' | 'rejected' | 'resolved';
+  reply?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  createdAt: string;
+}
+
+const STATUS_STYLES: Record<AccountRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  resolved: 'bg-blue-100 text-blue-800',
+};
+
+export default function AccountRequestManagement({
+  currentUserRole,
+  currentUserId,
+  onApprove,
+}: {
+  currentUserRole: Role;
+  currentUserId: string;
+  onApprove: (request: AccountRequest) => void;
+}) {
+  const { permissions } = usePermissions();
+  const [requests, setRequests] = useState<AccountRequest[]>([]);
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<string>('pending');
+  const [selectedRows, setSelectedRows] = useState<AccountRequest[]>([]);
+
+  // Fetch departments for name lookup
+  useEffect(() => {
+    const fetchDepartments = async () => {
+      try {
+        const deptSnapshot = await getDocs(collection(db, 'departments'));
+        setDepartments(deptSnapshot.docs.map((d) => ({ id: d.id, name: d.data().name })));
+      } catch (error) {
+        Swal.fire('Error', 'Failed to load departments', 'error');
+      }
+    };
+    fetchDepartments();
+  }, []);
+
+  // Real-time listener for account requests with a 500ms delay for smoother updates
+  useEffect(() => {
+    const unsubscribe = onSnapshot(collection(db, 'accountRequests'), (snapshot) => {
+      setTimeout(() => {
+        setRequests(snapshot.docs.map((d) => ({ ...d.data(), id: d.id } as AccountRequest)));
+        setLoading(false);
+      }, 500);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const getDepartmentName = (deptId: string) => departments.find((d) => d.id === deptId)?.name || 'N/A';
+
+  // Ask the reviewer for a reply and store the decision on the request
+  const reviewRequest = async (
+    request: AccountRequest,
+    status: AccountRequest['status'],
+    title: string,
+    replyRequired: boolean
+  ) => {
+    if (!request.id) return false;
+    const { value: reply, isConfirmed } = await Swal.fire({
+      title,
+      input: 'textarea',
+      inputLabel: `Reply to ${request.name} (${request.email})`,
+      inputPlaceholder: 'Write a reply...',
+      showCancelButton: true,
+      inputValidator: (value) => (replyRequired && !value ? 'Please enter a reply' : null),
+    });
+    if (!isConfirmed) return false;
+    try {
+      await updateDoc(doc(db, 'accountRequests', request.id), {
+        status,
+        reply: reply || '',
+        reviewedBy: currentUserId,
+        reviewedAt: new Date().toISOString(),
+      });
+      return true;
+    } catch (error) {
+      Swal.fire('Error', 'Failed to update request', 'error');
+      return false;
+    }
+  };
+
+  const handleApprove = async (request: AccountRequest) => {
+    if (request.type !== 'account_request') {
+      Swal.fire('Info', 'Only account requests can be approved. Use "Resolve" for messages.', 'info');
+      return;
+    }
+    if (await reviewRequest(request, 'approved', 'Approve Account Request', false)) {
+      // Hand over to the Users tab with the create form pre-filled
+      onApprove(request);
+    }
+  };
+
+  const handleReject = async (request: AccountRequest) => {
+    if (await reviewRequest(request, 'rejected', 'Reject Request', true)) {
+      Swal.fire('Rejected', 'The request has been rejected.', 'success');
+    }
+  };
+
+  const handleResolve = async (request: AccountRequest) => {
+    if (await reviewRequest(request, 'resolved', 'Resolve Message', false)) {
+      Swal.fire('Resolved', 'The message has been marked as resolved.', 'success');
+    }
+  };
+
+  const filteredRequests = requests
+    .filter((r) => !filterStatus || r.status === filterStatus)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const columns = [
+    {
+      name: 'Type',
+      selector: (row: AccountRequest) => (row.type === 'account_request' ? 'Account Request' : 'Message'),
+      sortable: true,
+    },
+    {
+      name: 'Name',
+      selector: (row: AccountRequest) => row.name,
+      sortable: true,
+    },
+    {
+      name: 'Email',
+      selector: (row: AccountRequest) => row.email,
+      sortable: true,
+    },
+    {
+      name: 'Department',
+      selector: (row: AccountRequest) => (row.departmentId ? getDepartmentName(row.departmentId) : 'N/A'),
+      sortable: true,
+    },
+    {
+      name: 'Message',
+      selector: (row: AccountRequest) => row.message,
+      wrap: true,
+      grow: 2,
+    },
+    {
+      name: 'Status',
+      cell: (row: AccountRequest) => (
+        <span className={`px-2 py-1 rounded-full text-xs font-semibold capitalize ${STATUS_STYLES[row.status]}`}>
+          {row.status}
+        </span>
+      ),
+      sortable: true,
+    },
+    {
+      name: 'Received',
+      selector: (row: AccountRequest) => new Date(row.createdAt).toLocaleString(),
+      sortable: true,
+    },
+  ];
+
+  // Custom subheader toolbar for DataTable
+  const SubHeaderComponent = () => {
+    const requireOne = (action: (request: AccountRequest) => void) => () => {
+      if (selectedRows.length !== 1) {
+        Swal.fire('Info', 'Please select exactly one request', 'info');
+      } else if (selectedRows[0].status !== 'pending') {
+        Swal.fire('Info', 'This request has already been reviewed', 'info');
+      } else {
+        action(selectedRows[0]);
+      }
+    };
+    return (
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={requireOne(handleApprove)}
+          className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <FontAwesomeIcon icon={faCheck} className="mr-2" /> Approve
+        </button>
+        <button
+          onClick={requireOne(handleReject)}
+          className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <FontAwesomeIcon icon={faXmark} className="mr-2" /> Reject
+        </button>
+        <button
+          onClick={requireOne(handleResolve)}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <FontAwesomeIcon icon={faReply} className="mr-2" /> Resolve
+        </button>
+      </div>
+    );
+  };
+
+  if (!permissions[currentUserRole]?.canReviewAccountRequests) {
+    return (
+      <div className="p-6 bg-white rounded-xl shadow-lg">
+        <h3 className="text-red-500">You don't have permission to review account requests</h3>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full py-20">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      <div className="bg-white rounded-xl p-6 shadow-lg flex flex-wrap gap-4 items-center">
+        <h2 className="text-2xl font-bold text-primary mr-auto">Account Requests &amp; Messages</h2>
+        <select
+          value={filterStatus}
+          onChange={(e) => setFilterStatus(e.target.value)}
+          className="p-2 border rounded"
+        >
+          <option value="">All Statuses</option>
+          <option value="pending">Pending</option>
+          <option value="approved">Approved</option>
+          <option value="rejected">Rejected</option>
+          <option value="resolved">Resolved</option>
+        </select>
+      </div>
+
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <DataTable
+          columns={columns}
+          data={filteredRequests}
+          pagination
+          responsive
+          highlightOnHover
+          selectableRows
+          selectableRowsSingle
+          onSelectedRowsChange={(state: { selectedRows: AccountRequest[] }) => setSelectedRows(state.selectedRows)}
+          subHeader
+          subHeaderComponent={<SubHeaderComponent />}
+          expandableRows
+          expandableRowDisabled={(row: AccountRequest) => !row.reply}
+          expandableRowsComponent={({ data }: { data: AccountRequest }) => (
+            <div className="p-4 bg-gray-50 text-sm text-gray-700">
+              <span className="font-semibold">Reply:</span> {data.reply}
+            </div>
+          )}
+          customStyles={{
+            headCells: {
+              style: {
+                fontWeight: 'bold',
+                backgroundColor: '#f3f4f6',
+              },
+            },
+          }}
+          noDataComponent={<div className="p-4 text-center text-gray-500">No requests to display.</div>}
+        />
+      </div>
+    </motion.div>
+  );
+}
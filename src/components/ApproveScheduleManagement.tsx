@@ -10,26 +10,49 @@ import {
   onSnapshot,
   doc,
   updateDoc,
-  deleteDoc,
+  addDoc,
   getDocs,
 } from 'firebase/firestore';
 import Swal from 'sweetalert2';
 import { Role } from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  getScheduleStatus,
+  SCHEDULE_STATUS_COLORS,
+  SCHEDULE_STATUS_LABELS,
+  ScheduleStatus,
+} from '@/utils/scheduleStatus';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faEdit, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { faEdit, faTrash, faCheck, faXmark } from '@fortawesome/free-solid-svg-icons';
+import { describeConflict, findConflicts, isValidTimeRange } from '@/lib/scheduling/conflicts';
+import { isPublishedSchedule, ScheduleDraft } from '@/utils/scheduleDrafts';
+import { isInTerm } from '@/utils/academicTerms';
+import { useAcademicTerms } from '@/hooks/useAcademicTerms';
+import { useRooms } from '@/hooks/useRooms';
+import { useTeacherAvailability } from '@/hooks/useTeacherAvailability';
+import { toUnavailableBlocks } from '@/utils/teacherAvailability';
+import { escapeHtml } from '@/utils/html';
+import AvailabilityEditor from './AvailabilityEditor';
 import LoadingSpinner from './LoadingSpinner';
+import RoomSelect from './RoomSelect';
 
 interface Schedule {
   id?: string;
   subjectId: string;
   teacherId: string;
   room: string;
+  sectionId?: string;
   days: string[];
   startTime: string;
   endTime: string;
   departmentId: string;
   createdAt: string;
   approved?: boolean;
+  status?: ScheduleStatus;
+  declineReason?: string;
+  respondedAt?: string;
+  draftId?: string;
+  termId?: string;
 }
 
 interface Subject {
@@ -37,30 +60,55 @@ interface Subject {
   subjectName: string;
 }
 
+// Teacher proposal to move or remove one of their schedule entries, reviewed in ScheduleManagement
+export interface ScheduleChangeRequest {
+  id?: string;
+  scheduleId: string;
+  teacherId: string;
+  departmentId: string;
+  type: 'update' | 'remove';
+  proposed?: {
+    room: string;
+    days: string[];
+    startTime: string;
+    endTime: string;
+  };
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+}
+
+const CHANGE_REQUEST_STATUS_LABELS: Record<ScheduleChangeRequest['status'], string> = {
+  pending: 'Pending Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
 export default function ApproveScheduleManagement({
   currentUserRole,
   currentUserId,
+  currentUserDepartment = '',
+  termId = '',
 }: {
   currentUserRole: Role;
   currentUserId: string;
+  currentUserDepartment?: string;
+  termId?: string;
 }) {
-  // If user is not a teacher, deny access
-  if (currentUserRole !== 'teacher') {
-    return (
-      <div className="p-6 bg-white rounded-xl shadow-lg">
-        <h3 className="text-red-500 text-lg font-semibold">
-          Access Denied: Only teachers can access this page.
-        </h3>
-      </div>
-    );
-  }
-
-  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const { permissions } = usePermissions();
+  const [assignedSchedules, setAssignedSchedules] = useState<Schedule[]>([]);
+  const [drafts, setDrafts] = useState<ScheduleDraft[]>([]);
   const [loading, setLoading] = useState(true);
   const [editSchedule, setEditSchedule] = useState<Schedule | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [selectedRows, setSelectedRows] = useState<Schedule[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [changeRequests, setChangeRequests] = useState<ScheduleChangeRequest[]>([]);
+  const [changeReason, setChangeReason] = useState('');
+  const [showAvailability, setShowAvailability] = useState(false);
 
   // Fetch subjects for subjectName lookup
   useEffect(() => {
@@ -80,13 +128,45 @@ export default function ApproveScheduleManagement({
     const q = query(collection(db, 'schedules'), where('teacherId', '==', currentUserId));
     const unsubscribe = onSnapshot(q, (snapshot) => {
       setTimeout(() => {
-        setSchedules(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Schedule)));
+        setAssignedSchedules(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Schedule)));
         setLoading(false);
       }, 500);
     });
     return () => unsubscribe();
   }, [currentUserId]);
 
+  // Draft statuses decide which entries are published
+  useEffect(() => {
+    const unsubscribe = onSnapshot(collection(db, 'scheduleDrafts'), (snapshot) => {
+      setDrafts(snapshot.docs.map((d) => ({ ...d.data(), id: d.id } as ScheduleDraft)));
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const { rooms } = useRooms();
+  const { availabilities, loading: availabilityLoading } = useTeacherAvailability();
+  const myAvailability = availabilities.find((a) => a.teacherId === currentUserId);
+
+  // Teachers only see the selected term's published timetable, never drafts in progress
+  const { currentTermId } = useAcademicTerms();
+  const termDrafts = drafts.filter((d) => isInTerm(d, termId, currentTermId));
+  const schedules = assignedSchedules.filter(
+    (sch) => isInTerm(sch, termId, currentTermId) && isPublishedSchedule(sch, termDrafts)
+  );
+
+  // The teacher's own change requests, newest first
+  useEffect(() => {
+    const q = query(collection(db, 'scheduleChangeRequests'), where('teacherId', '==', currentUserId));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setChangeRequests(
+        snapshot.docs
+          .map((d) => ({ ...d.data(), id: d.id } as ScheduleChangeRequest))
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      );
+    });
+    return () => unsubscribe();
+  }, [currentUserId]);
+
   // Helper function to get subjectName from subjectId
   const getSubjectName = (subjectId: string) => {
     const subj = subjects.find((s) => s.id === subjectId);
@@ -120,8 +200,78 @@ export default function ApproveScheduleManagement({
       selector: (row: Schedule) => row.endTime,
       sortable: true,
     },
+    {
+      name: 'Status',
+      selector: (row: Schedule) => SCHEDULE_STATUS_LABELS[getScheduleStatus(row)],
+      sortable: true,
+      cell: (row: Schedule) => (
+        <span title={row.declineReason || undefined} style={{ color: SCHEDULE_STATUS_COLORS[getScheduleStatus(row)] }}>
+          {SCHEDULE_STATUS_LABELS[getScheduleStatus(row)]}
+        </span>
+      ),
+    },
   ];
 
+  // Accept the selected schedules
+  const handleAccept = async () => {
+    if (selectedRows.length === 0) {
+      Swal.fire('Info', 'Please select at least one schedule to accept', 'info');
+      return;
+    }
+    try {
+      await Promise.all(
+        selectedRows.map((row) =>
+          row.id
+            ? updateDoc(doc(db, 'schedules', row.id), {
+                approved: true,
+                status: 'accepted',
+                declineReason: '',
+                respondedAt: new Date().toISOString(),
+              })
+            : Promise.resolve()
+        )
+      );
+      Swal.fire('Accepted!', 'Selected schedules have been accepted.', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to accept one or more schedules', 'error');
+    }
+  };
+
+  // Decline the selected schedules with a reason for the scheduler
+  const handleDecline = async () => {
+    if (selectedRows.length === 0) {
+      Swal.fire('Info', 'Please select at least one schedule to decline', 'info');
+      return;
+    }
+    const { value: reason, isConfirmed } = await Swal.fire({
+      title: 'Decline Schedule',
+      input: 'textarea',
+      inputLabel: 'Reason',
+      inputPlaceholder: 'e.g. I have another class at this time',
+      showCancelButton: true,
+      confirmButtonText: 'Decline',
+      inputValidator: (value) => (!value ? 'Please enter a reason' : null),
+    });
+    if (!isConfirmed) return;
+    try {
+      await Promise.all(
+        selectedRows.map((row) =>
+          row.id
+            ? updateDoc(doc(db, 'schedules', row.id), {
+                approved: false,
+                status: 'declined',
+                declineReason: reason,
+                respondedAt: new Date().toISOString(),
+              })
+            : Promise.resolve()
+        )
+      );
+      Swal.fire('Declined', 'Selected schedules have been declined.', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to decline one or more schedules', 'error');
+    }
+  };
+
   // Edit / Update
   const handleEditChange = (field: string, value: string | string[]) => {
     if (editSchedule) {
@@ -129,76 +279,105 @@ export default function ApproveScheduleManagement({
     }
   };
 
-  const handleUpdateSchedule = async () => {
+  // Schedules with an open request cannot get a second one
+  const hasPendingRequest = (scheduleId?: string) =>
+    changeRequests.some((r) => r.scheduleId === scheduleId && r.status === 'pending');
+
+  // Submit a proposed room/day/time change for review (the schedule itself is not touched)
+  const handleSubmitChangeRequest = async () => {
     if (!editSchedule || !editSchedule.id) return;
-    const { subjectId, room, days, startTime, endTime } = editSchedule;
+    const { room, days, startTime, endTime } = editSchedule;
 
-    if (!subjectId || !room || days.length === 0 || !startTime || !endTime) {
+    if (!room || days.length === 0 || !startTime || !endTime || !changeReason) {
       Swal.fire('Warning', 'Please fill all required fields', 'warning');
       return;
     }
+    if (!isValidTimeRange(startTime, endTime)) {
+      Swal.fire('Warning', 'Start time must be before end time', 'warning');
+      return;
+    }
 
     try {
-      const scheduleRef = doc(db, 'schedules', editSchedule.id);
-      await updateDoc(scheduleRef, { subjectId, room, days, startTime, endTime });
-      Swal.fire('Success', 'Schedule updated successfully', 'success');
+      // Check the proposal against every published schedule so reviewers are not sent clashing changes unknowingly
+      // Fetched through the server, since the rules only let teachers list their own entries
+      const res = await fetch(`/api/schedules/published?termId=${encodeURIComponent(termId)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      const allSchedules: Schedule[] = data.schedules;
+      const conflicts = findConflicts(editSchedule, allSchedules, {
+        ignoreId: editSchedule.id,
+        unavailable: toUnavailableBlocks(myAvailability ? [myAvailability] : []),
+      });
+      if (conflicts.length > 0) {
+        const confirmResult = await Swal.fire({
+          icon: 'warning',
+          title: 'This change would cause conflicts',
+          html: conflicts
+            .map((c) => escapeHtml(describeConflict(c, c.schedule && getSubjectName(c.schedule.subjectId))))
+            .join('<br/>'),
+          showCancelButton: true,
+          confirmButtonText: 'Submit Anyway',
+        });
+        if (!confirmResult.isConfirmed) return;
+      }
+
+      const request: ScheduleChangeRequest = {
+        scheduleId: editSchedule.id,
+        teacherId: currentUserId,
+        departmentId: editSchedule.departmentId,
+        type: 'update',
+        proposed: { room, days, startTime, endTime },
+        reason: changeReason,
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+      };
+      await addDoc(collection(db, 'scheduleChangeRequests'), request);
+      Swal.fire('Submitted', 'Your change request has been sent for review.', 'success');
       setIsEditModalOpen(false);
       setEditSchedule(null);
     } catch (error) {
-      Swal.fire('Error', 'Failed to update schedule', 'error');
+      Swal.fire('Error', 'Failed to submit change request', 'error');
     }
   };
 
-  // Open edit modal
-  const openEditModal = (sch: Schedule) => {
-    setEditSchedule(sch);
-    setIsEditModalOpen(true);
-  };
-
-  // Delete
-  const handleDeleteSchedule = async (scheduleId?: string) => {
-    if (!scheduleId) return;
-    const confirmResult = await Swal.fire({
-      title: 'Are you sure?',
-      text: 'This will delete the schedule entry.',
-      icon: 'warning',
+  // Ask for the selected schedule to be removed
+  const handleRequestRemoval = async (sch: Schedule) => {
+    if (!sch.id) return;
+    const { value: reason, isConfirmed } = await Swal.fire({
+      title: 'Request Removal',
+      input: 'textarea',
+      inputLabel: 'Reason',
       showCancelButton: true,
-      confirmButtonText: 'Yes, delete it!',
+      confirmButtonText: 'Submit Request',
+      inputValidator: (value) => (!value ? 'Please enter a reason' : null),
     });
-    if (confirmResult.isConfirmed) {
-      try {
-        await deleteDoc(doc(db, 'schedules', scheduleId));
-        Swal.fire('Deleted!', 'Schedule entry deleted.', 'success');
-      } catch (error) {
-        Swal.fire('Error', 'Failed to delete schedule', 'error');
-      }
+    if (!isConfirmed) return;
+    try {
+      const request: ScheduleChangeRequest = {
+        scheduleId: sch.id,
+        teacherId: currentUserId,
+        departmentId: sch.departmentId,
+        type: 'remove',
+        reason,
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+      };
+      await addDoc(collection(db, 'scheduleChangeRequests'), request);
+      Swal.fire('Submitted', 'Your removal request has been sent for review.', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to submit removal request', 'error');
     }
   };
 
-  const handleBulkDelete = async () => {
-    if (selectedRows.length === 0) {
-      Swal.fire('Info', 'Please select at least one schedule to delete', 'info');
+  // Open the change request modal pre-filled with the current values
+  const openEditModal = (sch: Schedule) => {
+    if (hasPendingRequest(sch.id)) {
+      Swal.fire('Info', 'This schedule already has a change request awaiting review', 'info');
       return;
     }
-    const confirmResult = await Swal.fire({
-      title: 'Are you sure?',
-      text: 'This will delete all selected schedule entries.',
-      icon: 'warning',
-      showCancelButton: true,
-      confirmButtonText: 'Yes, delete them!',
-    });
-    if (confirmResult.isConfirmed) {
-      try {
-        await Promise.all(
-          selectedRows.map((row) =>
-            row.id ? deleteDoc(doc(db, 'schedules', row.id)) : Promise.resolve()
-          )
-        );
-        Swal.fire('Deleted!', 'Selected schedule entries deleted.', 'success');
-      } catch (error) {
-        Swal.fire('Error', 'Failed to delete one or more schedule entries', 'error');
-      }
-    }
+    setEditSchedule(sch);
+    setChangeReason('');
+    setIsEditModalOpen(true);
   };
 
   // DataTable row selection
@@ -210,32 +389,67 @@ export default function ApproveScheduleManagement({
   const SubHeaderComponent = () => {
     return (
       <div className="flex flex-wrap items-center gap-4">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={handleAccept}
+          className="bg-green-500 text-white px-5 py-2 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-green-400"
+        >
+          <FontAwesomeIcon icon={faCheck} className="mr-2" /> Accept
+        </motion.button>
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={handleDecline}
+          className="bg-orange-500 text-white px-5 py-2 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-orange-400"
+        >
+          <FontAwesomeIcon icon={faXmark} className="mr-2" /> Decline
+        </motion.button>
         <motion.button
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
           onClick={() => {
             if (selectedRows.length !== 1) {
-              Swal.fire('Info', 'Please select exactly one schedule to edit', 'info');
+              Swal.fire('Info', 'Please select exactly one schedule to change', 'info');
             } else {
               openEditModal(selectedRows[0]);
             }
           }}
           className="bg-yellow-500 text-white px-5 py-2 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-yellow-400"
         >
-          <FontAwesomeIcon icon={faEdit} className="mr-2" /> Edit
+          <FontAwesomeIcon icon={faEdit} className="mr-2" /> Request Change
         </motion.button>
         <motion.button
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
-          onClick={handleBulkDelete}
+          onClick={() => {
+            if (selectedRows.length !== 1) {
+              Swal.fire('Info', 'Please select exactly one schedule to remove', 'info');
+            } else if (hasPendingRequest(selectedRows[0].id)) {
+              Swal.fire('Info', 'This schedule already has a change request awaiting review', 'info');
+            } else {
+              handleRequestRemoval(selectedRows[0]);
+            }
+          }}
           className="bg-red-500 text-white px-5 py-2 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-red-400"
         >
-          <FontAwesomeIcon icon={faTrash} className="mr-2" /> Delete
+          <FontAwesomeIcon icon={faTrash} className="mr-2" /> Request Removal
         </motion.button>
       </div>
     );
   };
 
+  // Checked after every hook, since the live permissions can change between renders
+  if (!permissions[currentUserRole]?.canApproveSchedule) {
+    return (
+      <div className="p-6 bg-white rounded-xl shadow-lg">
+        <h3 className="text-red-500 text-lg font-semibold">
+          Access Denied: You don't have permission to approve schedules.
+        </h3>
+      </div>
+    );
+  }
+
   // Loading state
   if (loading) {
     return (
@@ -303,7 +517,73 @@ export default function ApproveScheduleManagement({
         />
       </div>
 
-      {/* Edit Modal */}
+      {/* Availability */}
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+          <h2 className="text-2xl font-bold text-primary">My Availability</h2>
+          <button
+            onClick={() => setShowAvailability(!showAvailability)}
+            className="border border-primary text-primary px-4 py-2 rounded-lg hover:bg-primary/10 transition-colors"
+          >
+            {showAvailability ? 'Hide' : 'Edit Availability'}
+          </button>
+        </div>
+        <p className="text-gray-600">
+          Times marked unavailable can't be booked for you; preferred times are suggested first when your classes are
+          scheduled.
+        </p>
+        {showAvailability && !availabilityLoading && (
+          <div className="mt-4">
+            <AvailabilityEditor
+              teacherId={currentUserId}
+              departmentId={currentUserDepartment}
+              availability={myAvailability}
+              currentUserId={currentUserId}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Change Requests */}
+      {changeRequests.length > 0 && (
+        <div className="bg-white rounded-xl p-6 shadow-lg">
+          <h2 className="text-2xl font-bold text-primary mb-6">My Change Requests</h2>
+          <DataTable
+            columns={[
+              {
+                name: 'Subject',
+                selector: (row: ScheduleChangeRequest) =>
+                  getSubjectName(schedules.find((s) => s.id === row.scheduleId)?.subjectId ?? row.scheduleId),
+                sortable: true,
+              },
+              {
+                name: 'Request',
+                selector: (row: ScheduleChangeRequest) =>
+                  row.type === 'remove' || !row.proposed
+                    ? 'Remove'
+                    : `${row.proposed.days.join(', ')} ${row.proposed.startTime}-${row.proposed.endTime}, Room ${row.proposed.room}`,
+                wrap: true,
+              },
+              {
+                name: 'Status',
+                selector: (row: ScheduleChangeRequest) => CHANGE_REQUEST_STATUS_LABELS[row.status],
+                sortable: true,
+              },
+              {
+                name: 'Reviewer Note',
+                selector: (row: ScheduleChangeRequest) => row.reviewNote || '-',
+                wrap: true,
+              },
+            ]}
+            data={changeRequests}
+            pagination
+            responsive
+            highlightOnHover
+          />
+        </div>
+      )}
+
+      {/* Change Request Modal */}
       <AnimatePresence>
         {isEditModalOpen && editSchedule && (
           <motion.div
@@ -319,22 +599,13 @@ export default function ApproveScheduleManagement({
               exit={{ scale: 0.8 }}
               transition={{ type: 'spring', stiffness: 300, damping: 30 }}
             >
-              <h3 className="text-2xl font-bold text-primary mb-6">Edit Schedule</h3>
+              <h3 className="text-2xl font-bold text-primary mb-2">Request Schedule Change</h3>
+              <p className="text-gray-500 text-sm mb-6">
+                {getSubjectName(editSchedule.subjectId)}: your proposal is reviewed by your department head or the
+                registrar before the schedule changes.
+              </p>
               <div className="grid grid-cols-1 gap-4">
-                <input
-                  type="text"
-                  value={editSchedule.subjectId}
-                  onChange={(e) => handleEditChange('subjectId', e.target.value)}
-                  placeholder="Subject ID"
-                  className="p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                />
-                <input
-                  type="text"
-                  value={editSchedule.room}
-                  onChange={(e) => handleEditChange('room', e.target.value)}
-                  placeholder="Room"
-                  className="p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                />
+                <RoomSelect rooms={rooms} value={editSchedule.room} onChange={(room) => handleEditChange('room', room)} />
                 <input
                   type="text"
                   value={editSchedule.days.join(', ')}
@@ -356,6 +627,13 @@ export default function ApproveScheduleManagement({
                   onChange={(e) => handleEditChange('endTime', e.target.value)}
                   className="p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
                 />
+                <textarea
+                  value={changeReason}
+                  onChange={(e) => setChangeReason(e.target.value)}
+                  placeholder="Reason for the change"
+                  rows={3}
+                  className="p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
               </div>
               <div className="flex justify-end mt-8 gap-4">
                 <button
@@ -368,10 +646,10 @@ export default function ApproveScheduleManagement({
                   Cancel
                 </button>
                 <button
-                  onClick={handleUpdateSchedule}
+                  onClick={handleSubmitChangeRequest}
                   className="bg-primary hover:bg-accent-blue text-white px-6 py-2 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-primary"
                 >
-                  Save
+                  Submit Request
                 </button>
               </div>
             </motion.div>
@@ -0,0 +1,127 @@
+'use client';
+import { useState } from 'react';
+import { db } from '@/utils/firebase';
+import { doc, setDoc } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import {
+  AVAILABILITY_DAYS,
+  AVAILABILITY_TIMES,
+  blocksToCells,
+  CellState,
+  cellsToBlocks,
+  TeacherAvailability,
+} from '@/utils/teacherAvailability';
+
+const NEXT_STATE: Record<CellState, CellState> = {
+  available: 'preferred',
+  preferred: 'unavailable',
+  unavailable: 'available',
+};
+
+const CELL_CLASSES: Record<CellState, string> = {
+  available: 'bg-white hover:bg-gray-100',
+  preferred: 'bg-green-200 hover:bg-green-300',
+  unavailable: 'bg-red-300 hover:bg-red-400',
+};
+
+// Weekly grid of half-hour cells; clicking a cell cycles it through available, preferred and unavailable.
+// Render with key={teacherId} so switching teachers starts from that teacher's saved grid.
+export default function AvailabilityEditor({
+  teacherId,
+  departmentId,
+  availability,
+  currentUserId,
+  readOnly,
+}: {
+  teacherId: string;
+  departmentId: string;
+  availability?: TeacherAvailability;
+  currentUserId: string;
+  readOnly?: boolean;
+}) {
+  const [cells, setCells] = useState<Record<string, CellState>>(() => blocksToCells(availability));
+  const [saving, setSaving] = useState(false);
+
+  const toggleCell = (key: string) => {
+    if (readOnly) return;
+    setCells((prev) => ({ ...prev, [key]: NEXT_STATE[prev[key] ?? 'available'] }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const data: TeacherAvailability = {
+        teacherId,
+        departmentId,
+        unavailable: cellsToBlocks(cells, 'unavailable'),
+        preferred: cellsToBlocks(cells, 'preferred'),
+        updatedAt: new Date().toISOString(),
+        updatedBy: currentUserId,
+      };
+      await setDoc(doc(db, 'teacherAvailability', teacherId), data);
+      Swal.fire('Success', 'Availability saved', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to save availability', 'error');
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 h-4 border bg-white" /> Available
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 h-4 border bg-green-200" /> Preferred
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 h-4 border bg-red-300" /> Unavailable (can't be booked)
+        </span>
+        {availability?.updatedAt && (
+          <span className="ml-auto">Last saved {new Date(availability.updatedAt).toLocaleString()}</span>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="text-xs border-collapse select-none">
+          <thead>
+            <tr>
+              <th className="p-1" />
+              {AVAILABILITY_DAYS.map((day) => (
+                <th key={day} className="p-1 font-semibold text-gray-700 w-20">
+                  {day.slice(0, 3)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {AVAILABILITY_TIMES.map((time) => (
+              <tr key={time}>
+                <td className="pr-2 text-right text-gray-500">{time}</td>
+                {AVAILABILITY_DAYS.map((day) => {
+                  const key = `${day}|${time}`;
+                  return (
+                    <td
+                      key={key}
+                      onClick={() => toggleCell(key)}
+                      className={`border h-5 ${readOnly ? '' : 'cursor-pointer'} ${CELL_CLASSES[cells[key] ?? 'available']}`}
+                    />
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {!readOnly && (
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-primary hover:bg-accent-blue text-white px-6 py-2 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Availability'}
+        </button>
+      )}
+    </div>
+  );
+}
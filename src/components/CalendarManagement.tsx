@@ -19,7 +19,11 @@ import {
   deleteDoc,
 } from 'firebase/firestore';
 import Swal from 'sweetalert2';
-import { Role, ROLES } from '@/utils/roles';
+import { isDepartmentScoped, Role } from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useAcademicTerms } from '@/hooks/useAcademicTerms';
+import { isInTerm } from '@/utils/academicTerms';
+import AcademicTermManagement from './AcademicTermManagement';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { faEdit, faTrash, faFileExport } from '@fortawesome/free-solid-svg-icons';
 
@@ -33,6 +37,7 @@ interface CalendarEvent {
   departmentId: string; // "all" for global events, or a department id
   createdAt: string;
   createdBy: string;
+  termId?: string;
 }
 
 interface CurrentUser {
@@ -46,7 +51,17 @@ export interface Department {
   [key: string]: any;
 }
 
-export default function CalendarManagement({ currentUser }: { currentUser: CurrentUser }) {
+export default function CalendarManagement({
+  currentUser,
+  termId = '',
+}: {
+  currentUser: CurrentUser;
+  termId?: string; // Selected academic term; events are shown and created for it
+}) {
+  const { permissions } = usePermissions();
+  const { currentTermId } = useAcademicTerms();
+  // Department-scoped roles see and create events for their own department only
+  const departmentScoped = isDepartmentScoped(permissions, currentUser.role);
   // States
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
@@ -61,22 +76,13 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
     fullDay: true,
     startTime: '',
     endTime: '',
-    departmentId: currentUser.role === 'dept_head' ? (currentUser.departmentId || '') : 'all',
+    departmentId: departmentScoped ? (currentUser.departmentId || '') : 'all',
   });
 
   // For the DataTable row selection
   const [selectedRows, setSelectedRows] = useState<CalendarEvent[]>([]);
 
-  // --- 1) Permission Checks ---
-  if (!ROLES[currentUser.role]?.canManageCalendar && currentUser.role !== 'teacher') {
-    return (
-      <div className="p-6 bg-white rounded-xl shadow-lg">
-        <h3 className="text-red-500">You don't have permission to manage the calendar</h3>
-      </div>
-    );
-  }
-
-  // --- 2) Data Fetching ---
+  // --- 1) Data Fetching ---
   useEffect(() => {
     const fetchData = async () => {
       try {
@@ -112,13 +118,14 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
     return () => unsubscribe();
   }, []);
 
-  // --- 3) Filtering logic ---
+  // --- 2) Filtering logic ---
   const filterEvents = (ev: CalendarEvent) => {
+    if (!isInTerm(ev, termId, currentTermId)) return false;
     if (currentUser.role === 'teacher') {
       // Teachers see only global or events in their department
       return ev.departmentId === 'all' || ev.departmentId === currentUser.departmentId;
     }
-    if (currentUser.role === 'dept_head') {
+    if (departmentScoped) {
       return ev.departmentId === 'all' || ev.departmentId === currentUser.departmentId;
     }
     // Admin/registrar see all
@@ -127,7 +134,7 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
 
   const filteredEvents = events.filter(filterEvents);
 
-  // --- 4) FullCalendar Setup ---
+  // --- 3) FullCalendar Setup ---
   const getCalendarEvent = (ev: CalendarEvent) => {
     const eventStart = new Date(ev.date + (ev.fullDay ? '' : 'T' + (ev.startTime || '00:00')));
     const eventEnd = ev.fullDay
@@ -172,14 +179,14 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
       startTime: '',
       endTime: '',
       departmentId:
-        currentUser.role === 'dept_head'
+        departmentScoped
           ? currentUser.departmentId || ''
           : 'all',
     });
     setIsModalOpen(true);
   };
 
-  // --- 5) Event Form Logic ---
+  // --- 4) Event Form Logic ---
   const handleFormChange = (field: string, value: any) => {
     setEventForm(prev => ({ ...prev, [field]: value }));
   };
@@ -208,7 +215,7 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
     }
     // For dept head, force department
     const eventDept =
-      currentUser.role === 'dept_head' ? currentUser.departmentId || '' : departmentId;
+      departmentScoped ? currentUser.departmentId || '' : departmentId;
 
     const eventData: CalendarEvent = {
       title,
@@ -219,6 +226,7 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
       departmentId: eventDept,
       createdAt: new Date().toISOString(),
       createdBy: currentUser.role,
+      ...(termId && !editingEvent ? { termId } : {}),
     };
 
     try {
@@ -262,7 +270,7 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
     }
   };
 
-  // --- 6) DataTable for events ---
+  // --- 5) DataTable for events ---
   // Only non-teachers see the DataTable view.
   const tableColumns = [
     {
@@ -381,6 +389,15 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
     );
   };
 
+  // --- 6) Permission Checks (after every hook, since the live permissions can change between renders) ---
+  if (!permissions[currentUser.role]?.canManageCalendar && currentUser.role !== 'teacher') {
+    return (
+      <div className="p-6 bg-white rounded-xl shadow-lg">
+        <h3 className="text-red-500">You don't have permission to manage the calendar</h3>
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="p-6 bg-white rounded-xl shadow-lg">
@@ -391,6 +408,9 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
 
   return (
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-8">
+      {/* Terms apply to every department, so only calendar managers without a department scope edit them */}
+      {permissions[currentUser.role]?.canManageCalendar && !departmentScoped && <AcademicTermManagement />}
+
       {/* Calendar Section */}
       <div className="bg-white rounded-xl p-6 shadow-lg">
         <h2 className="text-2xl font-bold text-primary mb-4">School Calendar</h2>
@@ -505,7 +525,7 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
                     />
                   </div>
                 )}
-                {currentUser.role !== 'dept_head' && currentUser.role !== 'teacher' && (
+                {!departmentScoped && (
                   <select
                     value={eventForm.departmentId}
                     onChange={(e) => handleFormChange('departmentId', e.target.value)}
@@ -519,7 +539,7 @@ export default function CalendarManagement({ currentUser }: { currentUser: Curre
                     ))}
                   </select>
                 )}
-                {currentUser.role === 'dept_head' && (
+                {departmentScoped && (
                   <input
                     type="text"
                     value={currentUser.departmentId}
@@ -0,0 +1,96 @@
+'use client';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faXmark, faArrowRight, faClock, faTriangleExclamation } from '@fortawesome/free-solid-svg-icons';
+import { ScheduleConflict, ScheduleSlot, timeToMinutes } from '@/lib/scheduling/conflicts';
+
+type ConflictingSchedule = ScheduleSlot & { subjectId: string };
+
+const CONFLICT_TITLES: Record<ScheduleConflict['type'], string> = {
+  teacher: 'Teacher already booked',
+  room: 'Room already booked',
+  section: 'Section already has a class',
+  unavailable: 'Teacher marked this time unavailable',
+};
+
+// Side panel explaining each clash found by the conflict engine, with quick fixes
+export default function ConflictPanel<T extends ConflictingSchedule>({
+  conflicts,
+  getSubjectName,
+  getTeacherName,
+  onJumpTo,
+  onPickNextFreeSlot,
+  onClose,
+}: {
+  conflicts: ScheduleConflict<T>[];
+  getSubjectName: (subjectId: string) => string;
+  getTeacherName: (teacherId: string) => string;
+  onJumpTo: (schedule: T) => void;
+  onPickNextFreeSlot: () => void;
+  onClose: () => void;
+}) {
+  return (
+    <AnimatePresence>
+      {conflicts.length > 0 && (
+        <motion.aside
+          className="fixed right-0 top-16 bottom-0 w-full sm:w-96 bg-white shadow-2xl z-[60] flex flex-col"
+          initial={{ x: 400 }}
+          animate={{ x: 0 }}
+          exit={{ x: 400 }}
+          transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+        >
+          <div className="flex items-center justify-between p-4 border-b">
+            <h3 className="text-lg font-bold text-red-600">
+              <FontAwesomeIcon icon={faTriangleExclamation} className="mr-2" />
+              {conflicts.length} Conflict{conflicts.length === 1 ? '' : 's'}
+            </h3>
+            <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100">
+              <FontAwesomeIcon icon={faXmark} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {conflicts.map((conflict, index) => (
+              <div key={`${conflict.schedule?.id}-${conflict.type}-${conflict.day}-${index}`} className="border rounded-lg p-3">
+                <p className="font-semibold text-gray-800">{CONFLICT_TITLES[conflict.type]}</p>
+                {conflict.type === 'unavailable' ? (
+                  <p className="text-sm text-gray-600">
+                    Teacher: {getTeacherName(conflict.block.teacherId)} (unavailable {conflict.block.startTime}-
+                    {conflict.block.endTime})
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-600">{getSubjectName(conflict.schedule.subjectId)}</p>
+                    <p className="text-sm text-gray-600">Teacher: {getTeacherName(conflict.schedule.teacherId)}</p>
+                    <p className="text-sm text-gray-600">Room: {conflict.schedule.room}</p>
+                  </>
+                )}
+                <p className="text-sm text-gray-600">
+                  {conflict.day}, overlapping {conflict.overlapStart}-{conflict.overlapEnd} (
+                  {timeToMinutes(conflict.overlapEnd) - timeToMinutes(conflict.overlapStart)} min)
+                </p>
+                {conflict.type !== 'unavailable' && (
+                  <button
+                    onClick={() => onJumpTo(conflict.schedule)}
+                    className="mt-2 text-sm text-primary hover:underline"
+                  >
+                    Open this entry <FontAwesomeIcon icon={faArrowRight} className="ml-1" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="p-4 border-t">
+            <button
+              onClick={onPickNextFreeSlot}
+              className="w-full bg-primary hover:bg-accent-blue text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <FontAwesomeIcon icon={faClock} className="mr-2" /> Use Next Free Slot
+            </button>
+          </div>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+}
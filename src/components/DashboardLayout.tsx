@@ -2,48 +2,103 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useRouter } from 'next/navigation';
-import { ROLES, Role } from '@/utils/roles';
+import { AREA_PERMISSIONS, getRoleLabel, Role } from '@/utils/roles';
+import Swal from 'sweetalert2';
+import { usePermissions } from '@/hooks/usePermissions';
+import { signOut } from 'firebase/auth';
 import { auth } from '@/utils/firebase';
+import { AcademicTerm, getTermLabel, TERM_STATUS_LABELS } from '@/utils/academicTerms';
 import Image from 'next/image';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faBars, faXmark, faCalendar, faUsers, faBook, faCog, faCheckCircle } from '@fortawesome/free-solid-svg-icons';
+import { faBars, faXmark, faCalendar, faUsers, faBook, faCog, faCheckCircle, faInbox, faShieldHalved, faUserLock, faUserSecret, faDoorOpen, faLayerGroup, faGraduationCap } from '@fortawesome/free-solid-svg-icons';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
   role: Role;
   activeTab: string;
   setActiveTab: (tab: string) => void;
+  restrictToTab?: string; // Only show this tab (e.g. while 2FA enrollment is pending)
+  impersonating?: { username: string } | null; // Admin "view as" session in progress
+  terms?: AcademicTerm[];
+  termId?: string; // Term the schedule, approve and calendar tabs are scoped to
+  onTermChange?: (termId: string) => void;
 }
 
-/** Map labels to actual permission keys */
-const permissionKeys: Record<string, keyof typeof ROLES[Role]> = {
-  Schedule: 'canManageSchedule',
-  Approve: 'canApproveSchedule',
-  Users: 'canManageUsers',
-  Subjects: 'canManageSubjects',
-  Calendar: 'canManageCalendar',
-};
-
 const navItems = [
   { id: 'schedule', icon: faCalendar, label: 'Schedule' },
   { id: 'approve', icon: faCheckCircle, label: 'Approve' },
   { id: 'users', icon: faUsers, label: 'Users' },
   { id: 'subjects', icon: faBook, label: 'Subjects' },
+  { id: 'sections', icon: faLayerGroup, label: 'Sections' },
+  { id: 'qualifications', icon: faGraduationCap, label: 'Qualifications' },
+  { id: 'rooms', icon: faDoorOpen, label: 'Rooms' },
   { id: 'calendar', icon: faCog, label: 'Calendar' },
+  { id: 'requests', icon: faInbox, label: 'Requests' },
+  { id: 'roles', icon: faUserLock, label: 'Roles' },
+  { id: 'security', icon: faShieldHalved, label: 'Security' },
 ];
 
-export default function DashboardLayout({ children, role, activeTab, setActiveTab }: DashboardLayoutProps) {
+export default function DashboardLayout({
+  children,
+  role,
+  activeTab,
+  setActiveTab,
+  restrictToTab,
+  impersonating,
+  terms = [],
+  termId,
+  onTermChange,
+}: DashboardLayoutProps) {
   const router = useRouter();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const { permissions } = usePermissions();
 
-  const handleLogout = () => {
-    localStorage.removeItem('user');
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    await signOut(auth);
     router.push('/');
   };
 
-  // Filter navigation based on user role permissions
-  const filteredNavItems = navItems.filter(
-    (item) => ROLES[role]?.[permissionKeys[item.label]] ?? false
+  // Return to the admin's own session; a full reload re-signs Firebase in with the admin's claims
+  const handleExitImpersonation = async () => {
+    const res = await fetch('/api/auth/impersonate', { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json();
+      // 403: the admin account is gone and the server has already ended the session
+      if (res.status === 403) {
+        await Swal.fire('Signed out', data.error || 'Your account no longer exists', 'warning');
+        await signOut(auth);
+        router.push('/');
+        return;
+      }
+      Swal.fire('Error', data.error || 'Failed to return to your account', 'error');
+      return;
+    }
+    window.location.href = '/dashboard';
+  };
+
+  // Filter navigation based on user role permissions (tabs without a permission are open to everyone)
+  const filteredNavItems = navItems.filter((item) =>
+    restrictToTab
+      ? item.id === restrictToTab
+      : !AREA_PERMISSIONS[item.id] || (permissions[role]?.[AREA_PERMISSIONS[item.id]] ?? false)
+  );
+
+  const showTermSwitcher = !restrictToTab && terms.length > 0 && !!onTermChange;
+  const termSwitcher = (className: string) => (
+    <select
+      value={termId}
+      onChange={(e) => onTermChange?.(e.target.value)}
+      className={className}
+      aria-label="Academic term"
+    >
+      {terms.map((term) => (
+        <option key={term.id} value={term.id}>
+          {getTermLabel(term)}
+          {term.status !== 'closed' ? ` (${TERM_STATUS_LABELS[term.status]})` : ''}
+        </option>
+      ))}
+    </select>
   );
 
   const navVariants = {
@@ -90,6 +145,8 @@ export default function DashboardLayout({ children, role, activeTab, setActiveTa
 
             {/* Right Section */}
             <div className="flex items-center gap-4">
+              {showTermSwitcher &&
+                termSwitcher('hidden md:block bg-white/20 text-white rounded-lg px-2 py-2 text-sm [&>option]:text-gray-900')}
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
@@ -118,6 +175,7 @@ export default function DashboardLayout({ children, role, activeTab, setActiveTa
               className="md:hidden absolute top-16 right-0 w-full bg-white shadow-xl"
             >
               <div className="px-4 py-2">
+                {showTermSwitcher && termSwitcher('w-full mb-2 p-3 border rounded-lg text-gray-800')}
                 {filteredNavItems.map((item) => (
                   <motion.div key={item.id} whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} className="mb-2">
                     <a
@@ -148,8 +206,26 @@ export default function DashboardLayout({ children, role, activeTab, setActiveTa
         </AnimatePresence>
       </header>
 
+      {/* Impersonation Banner */}
+      {impersonating && (
+        <div className="fixed top-16 w-full z-40 bg-yellow-400 text-gray-900 shadow">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center justify-between gap-2">
+            <span className="font-semibold">
+              <FontAwesomeIcon icon={faUserSecret} className="mr-2" />
+              Viewing as {impersonating.username} ({getRoleLabel(permissions, role)}). Changes are disabled.
+            </span>
+            <button
+              onClick={handleExitImpersonation}
+              className="bg-gray-900 hover:bg-gray-700 text-white px-4 py-1 rounded-lg transition-colors"
+            >
+              Exit View As
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
-      <main className="flex-1 mt-16 container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <main className={`flex-1 ${impersonating ? 'mt-28' : 'mt-16'} container mx-auto px-4 sm:px-6 lg:px-8 py-8`}>
         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3, ease: 'easeOut' }}>
           {children}
         </motion.div>
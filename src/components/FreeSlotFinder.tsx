@@ -0,0 +1,171 @@
+'use client';
+import { useState } from 'react';
+import moment from 'moment';
+import { db } from '@/utils/firebase';
+import { collection, getDocs } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import { ScheduleSlot, timeToMinutes } from '@/lib/scheduling/conflicts';
+import { findFreeSlots, FreeSlot, getPreferredSlots, SCHOOL_DAY_END, SCHOOL_DAY_START, TimeBlock } from '@/lib/scheduling/slots';
+import { useTeacherAvailability } from '@/hooks/useTeacherAvailability';
+import { toUnavailableBlocks } from '@/utils/teacherAvailability';
+
+// Calendar events mark holidays and half-day breaks for everyone or one department
+interface CalendarEvent {
+  date: string;
+  fullDay: boolean;
+  startTime?: string;
+  endTime?: string;
+  departmentId: string;
+}
+
+// Lists the gaps where the chosen teacher (and room) are free, with the teacher's preferred times first;
+// clicking one fills the schedule form
+export default function FreeSlotFinder({
+  schedules,
+  teacherId,
+  room,
+  sectionId,
+  days,
+  departmentId,
+  defaultDuration,
+  onPick,
+}: {
+  schedules: ScheduleSlot[];
+  teacherId: string;
+  room: string;
+  sectionId?: string;
+  days: string[];
+  departmentId: string;
+  defaultDuration?: number;
+  onPick: (slot: FreeSlot, durationMinutes: number) => void;
+}) {
+  const [duration, setDuration] = useState(defaultDuration || 60);
+  const [weekOf, setWeekOf] = useState(moment().format('YYYY-MM-DD'));
+  const [slots, setSlots] = useState<FreeSlot[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const { availabilities } = useTeacherAvailability();
+  const preferred = availabilities.find((a) => a.teacherId === teacherId)?.preferred ?? {};
+
+  // Holidays in the chosen week, as busy time on their weekday
+  const loadHolidayBlocks = async () => {
+    const weekStart = moment(weekOf).startOf('isoWeek');
+    const weekEnd = weekStart.clone().endOf('isoWeek');
+    const snapshot = await getDocs(collection(db, 'calendar'));
+    const blocked: Record<string, TimeBlock[]> = {};
+    snapshot.docs
+      .map((d) => d.data() as CalendarEvent)
+      .filter((ev) => ev.departmentId === 'all' || ev.departmentId === departmentId)
+      .filter((ev) => moment(ev.date).isBetween(weekStart, weekEnd, 'day', '[]'))
+      .forEach((ev) => {
+        const day = moment(ev.date).format('dddd');
+        blocked[day] = [
+          ...(blocked[day] ?? []),
+          ev.fullDay || !ev.startTime || !ev.endTime
+            ? { startTime: SCHOOL_DAY_START, endTime: SCHOOL_DAY_END }
+            : { startTime: ev.startTime, endTime: ev.endTime },
+        ];
+      });
+    return blocked;
+  };
+
+  const handleSearch = async () => {
+    if (!teacherId || days.length === 0) {
+      Swal.fire('Warning', 'Select a teacher and at least one day first', 'warning');
+      return;
+    }
+    if (!duration || duration <= 0) {
+      Swal.fire('Warning', 'Enter a duration in minutes', 'warning');
+      return;
+    }
+    setSearching(true);
+    try {
+      const blocked = await loadHolidayBlocks();
+      setSlots(
+        findFreeSlots({ teacherId, room, sectionId, days, durationMinutes: duration }, schedules, {
+          blocked,
+          unavailable: toUnavailableBlocks(availabilities),
+        })
+      );
+    } catch (error) {
+      Swal.fire('Error', 'Failed to load calendar events', 'error');
+    }
+    setSearching(false);
+  };
+
+  return (
+    <div className="border rounded-lg p-4 bg-gray-50">
+      <h3 className="text-lg font-semibold text-primary mb-3">Find Available Slots</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">Duration (minutes)</label>
+          <input
+            type="number"
+            min={15}
+            step={15}
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            className="w-full p-3 border rounded-lg"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">Week of (for holidays)</label>
+          <input
+            type="date"
+            value={weekOf}
+            onChange={(e) => setWeekOf(e.target.value)}
+            className="w-full p-3 border rounded-lg"
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={handleSearch}
+            disabled={searching}
+            className="w-full bg-primary hover:bg-accent-blue text-white px-4 py-3 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {searching ? 'Searching...' : 'Search'}
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500 mt-2">
+        Uses the teacher, room, section and days selected above; leave the room empty to check the teacher only. Times
+        the teacher marked unavailable are never offered.
+      </p>
+
+      {slots && (
+        <div className="mt-4 space-y-3">
+          {slots.length === 0 && <p className="text-gray-600">No free slots on the selected days.</p>}
+          {days.map((day) => {
+            const daySlots = slots.filter((s) => s.day === day);
+            if (daySlots.length === 0) return null;
+            const preferredSlots = getPreferredSlots(daySlots, preferred, duration);
+            return (
+              <div key={day}>
+                <p className="font-semibold text-gray-700">{day}</p>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {preferredSlots.map((slot) => (
+                    <button
+                      key={`preferred-${slot.day}-${slot.startTime}`}
+                      onClick={() => onPick(slot, duration)}
+                      className="px-3 py-1 rounded-lg border border-green-600 bg-green-100 text-green-800 hover:bg-green-200 transition-colors"
+                    >
+                      {slot.startTime}-{slot.endTime} (preferred)
+                    </button>
+                  ))}
+                  {daySlots.map((slot) => (
+                    <button
+                      key={`${slot.day}-${slot.startTime}`}
+                      onClick={() => onPick(slot, duration)}
+                      className="px-3 py-1 rounded-lg border border-green-500 text-green-700 hover:bg-green-50 transition-colors"
+                    >
+                      {slot.startTime}-{slot.endTime} ({timeToMinutes(slot.endTime) - timeToMinutes(slot.startTime)} min free)
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
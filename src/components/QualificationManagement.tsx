@@ -0,0 +1,224 @@
+'use client';
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import DataTable from 'react-data-table-component';
+import { db } from '@/utils/firebase';
+import { collection, deleteDoc, doc, getDocs, query, setDoc, where } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import { isDepartmentScoped, Role } from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useTeacherQualifications } from '@/hooks/useTeacherQualifications';
+import { useDepartmentsAndCourses } from '@/hooks/useDepartmentsAndCourses';
+import { getQualificationId, isQualified, TeacherQualification } from '@/utils/qualifications';
+import { Teacher } from '@/utils/teachers';
+
+interface SubjectData {
+  id: string;
+  subjectCode: string;
+  subjectName: string;
+  departmentId: string;
+  courseId?: string;
+  semester?: string;
+}
+
+// Matrix of which teachers may teach which subjects, plus the subjects nobody is qualified for
+export default function QualificationManagement({
+  currentUserRole,
+  currentUserDepartment,
+  currentUserId,
+}: {
+  currentUserRole: Role;
+  currentUserDepartment?: string;
+  currentUserId: string;
+}) {
+  const { permissions } = usePermissions();
+  const { qualifications, loading } = useTeacherQualifications();
+  // Dept heads only maintain their own department's subjects
+  const departmentScoped = isDepartmentScoped(permissions, currentUserRole);
+  const { departments, courses: allCourses } = useDepartmentsAndCourses();
+  const [subjects, setSubjects] = useState<SubjectData[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [filterDepartment, setFilterDepartment] = useState('');
+  const [filterCourse, setFilterCourse] = useState('');
+  const [showOtherTeachers, setShowOtherTeachers] = useState(false);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const subjectSnapshot = await getDocs(collection(db, 'subjects'));
+        setSubjects(subjectSnapshot.docs.map((d) => ({ ...d.data(), id: d.id } as SubjectData)));
+        const teacherSnapshot = await getDocs(query(collection(db, 'users'), where('role', '==', 'teacher')));
+        setTeachers(teacherSnapshot.docs.map((d) => ({ ...d.data(), id: d.id } as Teacher)));
+      } catch (error) {
+        Swal.fire('Error', 'Failed to load subjects and teachers', 'error');
+      }
+    };
+    fetchData();
+  }, []);
+
+  if (!permissions[currentUserRole]?.canManageSubjects) {
+    return (
+      <div className="p-6 bg-white rounded-xl shadow-lg">
+        <h3 className="text-red-500">You don't have permission to manage qualifications</h3>
+      </div>
+    );
+  }
+
+  const department = departmentScoped ? currentUserDepartment ?? '' : filterDepartment;
+  const departmentSubjects = subjects
+    .filter((s) => !department || s.departmentId === department)
+    .sort((a, b) => a.subjectCode.localeCompare(b.subjectCode));
+  const matrixSubjects = departmentSubjects.filter((s) => !filterCourse || s.courseId === filterCourse);
+  // Teachers from other departments stay listed while they hold a qualification shown here
+  const matrixTeachers = teachers
+    .filter(
+      (t) =>
+        !department ||
+        showOtherTeachers ||
+        t.departmentId === department ||
+        matrixSubjects.some((s) => isQualified(qualifications, t.id, s.id))
+    )
+    .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`));
+  const unqualifiedSubjects = departmentSubjects.filter((s) => !qualifications.some((q) => q.subjectId === s.id));
+  const filterCourses = allCourses.filter((c) => !department || c.departmentId === department);
+
+  const getCourseName = (courseId?: string) => allCourses.find((c) => c.id === courseId)?.name ?? '-';
+
+  const handleToggle = async (teacherId: string, subject: SubjectData) => {
+    const ref = doc(db, 'teacherQualifications', getQualificationId(teacherId, subject.id));
+    try {
+      if (isQualified(qualifications, teacherId, subject.id)) {
+        await deleteDoc(ref);
+      } else {
+        const qualification: TeacherQualification = {
+          teacherId,
+          subjectId: subject.id,
+          departmentId: subject.departmentId,
+          createdAt: new Date().toISOString(),
+          createdBy: currentUserId,
+        };
+        await setDoc(ref, qualification);
+      }
+    } catch (error) {
+      Swal.fire('Error', 'Failed to update the qualification', 'error');
+    }
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-8">
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <h2 className="text-2xl font-bold text-primary mb-2">Teacher Qualifications</h2>
+        <p className="text-gray-600 mb-4">
+          Tick the subjects each teacher is qualified to teach. The schedule form only offers qualified teachers unless the
+          scheduler overrides it with a reason.
+        </p>
+        <div className="mb-4 flex flex-wrap items-center gap-4">
+          {departmentScoped && currentUserDepartment ? (
+            <select value={currentUserDepartment} disabled className="p-2 border rounded">
+              <option value={currentUserDepartment}>
+                {departments.find((d) => d.id === currentUserDepartment)?.name ?? currentUserDepartment}
+              </option>
+            </select>
+          ) : (
+            <select
+              value={filterDepartment}
+              onChange={(e) => {
+                setFilterDepartment(e.target.value);
+                setFilterCourse('');
+              }}
+              className="p-2 border rounded"
+            >
+              <option value="">All Departments</option>
+              {departments.map((dept) => (
+                <option key={dept.id} value={dept.id}>
+                  {dept.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select value={filterCourse} onChange={(e) => setFilterCourse(e.target.value)} className="p-2 border rounded">
+            <option value="">All Courses</option>
+            {filterCourses.map((course) => (
+              <option key={course.id} value={course.id}>
+                {course.name} ({course.code})
+              </option>
+            ))}
+          </select>
+          {department && (
+            <label className="flex items-center gap-2 text-gray-700">
+              <input type="checkbox" checked={showOtherTeachers} onChange={(e) => setShowOtherTeachers(e.target.checked)} />
+              Show teachers from other departments
+            </label>
+          )}
+        </div>
+        {loading ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : matrixSubjects.length === 0 || matrixTeachers.length === 0 ? (
+          <p className="text-gray-500">No subjects or teachers to show.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="p-2 text-left font-bold sticky left-0 bg-gray-100">Teacher</th>
+                  {matrixSubjects.map((subject) => (
+                    <th key={subject.id} className="p-2 font-bold whitespace-nowrap" title={subject.subjectName}>
+                      {subject.subjectCode}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrixTeachers.map((teacher) => (
+                  <tr key={teacher.id} className="border-t hover:bg-gray-50">
+                    <td className="p-2 whitespace-nowrap sticky left-0 bg-white">
+                      {teacher.lastName}, {teacher.firstName}
+                    </td>
+                    {matrixSubjects.map((subject) => (
+                      <td key={subject.id} className="p-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={isQualified(qualifications, teacher.id, subject.id)}
+                          onChange={() => handleToggle(teacher.id, subject)}
+                          title={`${teacher.firstName} ${teacher.lastName} - ${subject.subjectName}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <h2 className="text-2xl font-bold text-primary mb-4">
+          Subjects Without a Qualified Teacher ({unqualifiedSubjects.length})
+        </h2>
+        <DataTable
+          columns={[
+            { name: 'Code', selector: (row: SubjectData) => row.subjectCode, sortable: true },
+            { name: 'Subject', selector: (row: SubjectData) => row.subjectName, sortable: true, wrap: true },
+            { name: 'Course', selector: (row: SubjectData) => getCourseName(row.courseId), sortable: true },
+            { name: 'Semester', selector: (row: SubjectData) => row.semester || '-', sortable: true },
+          ]}
+          data={unqualifiedSubjects}
+          progressPending={loading}
+          pagination
+          responsive
+          highlightOnHover
+          noDataComponent="Every subject has at least one qualified teacher."
+          customStyles={{
+            headCells: {
+              style: {
+                fontWeight: 'bold',
+                backgroundColor: '#f3f4f6',
+              },
+            },
+          }}
+        />
+      </div>
+    </motion.div>
+  );
+}
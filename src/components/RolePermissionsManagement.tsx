@@ -0,0 +1,226 @@
+'use client';
+import { motion } from 'framer-motion';
+import { db } from '@/utils/firebase';
+import { collection, deleteDoc, doc, getDocs, limit, query, setDoc, where, writeBatch } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import {
+  BuiltInRole,
+  DepartmentScope,
+  EMPTY_ROLE,
+  getRoleLabel,
+  isBuiltInRole,
+  PERMISSION_LABELS,
+  PermissionKey,
+  Role,
+  ROLES,
+} from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPlus, faRotateLeft, faTrash } from '@fortawesome/free-solid-svg-icons';
+import LoadingSpinner from './LoadingSpinner';
+
+const permissionKeys = Object.keys(PERMISSION_LABELS) as PermissionKey[];
+
+// Toggling these off would lock every admin out of this screen
+const isLocked = (role: Role, key: PermissionKey) => role === 'admin' && key === 'canManageRoles';
+
+export default function RolePermissionsManagement({ currentUserRole }: { currentUserRole: Role }) {
+  const { permissions, loading } = usePermissions();
+  const roles = Object.keys(permissions);
+
+  const handleToggle = async (role: Role, key: PermissionKey) => {
+    try {
+      await setDoc(doc(db, 'rolePermissions', role), { [key]: !permissions[role][key] }, { merge: true });
+    } catch (error) {
+      Swal.fire('Error', 'Failed to update permission', 'error');
+    }
+  };
+
+  const handleScopeChange = async (role: Role, departmentScope: DepartmentScope) => {
+    try {
+      await setDoc(doc(db, 'rolePermissions', role), { departmentScope }, { merge: true });
+    } catch (error) {
+      Swal.fire('Error', 'Failed to update department scope', 'error');
+    }
+  };
+
+  // Define a custom role; permissions start empty and are toggled in the grid
+  const handleCreateRole = async () => {
+    const { value, isConfirmed } = await Swal.fire({
+      title: 'New Role',
+      html: `<input id="role-label" class="swal2-input" placeholder="Role name (e.g. Program Chair)" />
+        <select id="role-scope" class="swal2-select">
+          <option value="department">Own department only</option>
+          <option value="all">All departments</option>
+        </select>`,
+      showCancelButton: true,
+      confirmButtonText: 'Create',
+      preConfirm: () => {
+        const label = (document.getElementById('role-label') as HTMLInputElement).value.trim();
+        const departmentScope = (document.getElementById('role-scope') as HTMLSelectElement).value as DepartmentScope;
+        const id = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+        if (!id) {
+          Swal.showValidationMessage('Please enter a role name');
+          return false;
+        }
+        if (permissions[id]) {
+          Swal.showValidationMessage('A role with this name already exists');
+          return false;
+        }
+        return { id, label, departmentScope };
+      },
+    });
+    if (!isConfirmed || !value) return;
+    try {
+      await setDoc(doc(db, 'rolePermissions', value.id), {
+        ...EMPTY_ROLE,
+        label: value.label,
+        departmentScope: value.departmentScope,
+        custom: true,
+      });
+      Swal.fire('Created!', `Role "${value.label}" has been added.`, 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to create role', 'error');
+    }
+  };
+
+  // Custom roles can only be removed once no user holds them
+  const handleDeleteRole = async (role: Role) => {
+    try {
+      const assigned = await getDocs(query(collection(db, 'users'), where('role', '==', role), limit(1)));
+      if (!assigned.empty) {
+        Swal.fire('Warning', 'Reassign the users with this role before deleting it', 'warning');
+        return;
+      }
+      const confirmResult = await Swal.fire({
+        title: 'Are you sure?',
+        text: `This will permanently delete the role "${getRoleLabel(permissions, role)}".`,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: 'Yes, delete it!',
+      });
+      if (!confirmResult.isConfirmed) return;
+      await deleteDoc(doc(db, 'rolePermissions', role));
+      Swal.fire('Deleted!', 'Role has been deleted.', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to delete role', 'error');
+    }
+  };
+
+  // Overwrite the built-in roles with their defaults from ROLES (custom roles are left alone)
+  const handleResetDefaults = async () => {
+    const confirmResult = await Swal.fire({
+      title: 'Reset to defaults?',
+      text: 'Every built-in role will get its original permissions back.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Yes, reset',
+    });
+    if (!confirmResult.isConfirmed) return;
+    try {
+      const batch = writeBatch(db);
+      (Object.keys(ROLES) as BuiltInRole[]).forEach((role) => batch.set(doc(db, 'rolePermissions', role), ROLES[role]));
+      await batch.commit();
+      Swal.fire('Reset!', 'Permissions restored to defaults.', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to reset permissions', 'error');
+    }
+  };
+
+  if (!permissions[currentUserRole]?.canManageRoles) {
+    return (
+      <div className="p-6 bg-white rounded-xl shadow-lg">
+        <h3 className="text-red-500">You don't have permission to manage roles</h3>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full py-20">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h2 className="text-2xl font-bold text-primary">Roles &amp; Permissions</h2>
+          <div className="flex gap-4">
+            <button
+              onClick={handleCreateRole}
+              className="bg-primary hover:bg-accent-blue text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <FontAwesomeIcon icon={faPlus} className="mr-2" /> New Role
+            </button>
+            <button
+              onClick={handleResetDefaults}
+              className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <FontAwesomeIcon icon={faRotateLeft} className="mr-2" /> Reset to Defaults
+            </button>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="p-3 font-bold">Permission</th>
+                {roles.map((role) => (
+                  <th key={role} className="p-3 font-bold text-center">
+                    {getRoleLabel(permissions, role)}
+                    {!isBuiltInRole(role) && (
+                      <button
+                        onClick={() => handleDeleteRole(role)}
+                        className="ml-2 text-red-500 hover:text-red-600"
+                        title="Delete role"
+                      >
+                        <FontAwesomeIcon icon={faTrash} />
+                      </button>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b hover:bg-gray-50">
+                <td className="p-3">Department scope</td>
+                {roles.map((role) => (
+                  <td key={role} className="p-3 text-center">
+                    <select
+                      value={permissions[role].departmentScope ?? 'all'}
+                      onChange={(e) => handleScopeChange(role, e.target.value as DepartmentScope)}
+                      className="p-1 border rounded"
+                    >
+                      <option value="all">All departments</option>
+                      <option value="department">Own department</option>
+                    </select>
+                  </td>
+                ))}
+              </tr>
+              {permissionKeys.map((key) => (
+                <tr key={key} className="border-b hover:bg-gray-50">
+                  <td className="p-3">{PERMISSION_LABELS[key]}</td>
+                  {roles.map((role) => (
+                    <td key={role} className="p-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={permissions[role][key]}
+                        disabled={isLocked(role, key)}
+                        onChange={() => handleToggle(role, key)}
+                        className="w-4 h-4 cursor-pointer disabled:cursor-not-allowed"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-4 text-sm text-gray-500">Changes apply immediately to every signed-in user.</p>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,287 @@
+'use client';
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import DataTable from 'react-data-table-component';
+import { db } from '@/utils/firebase';
+import { addDoc, collection, deleteDoc, doc, getDocs, limit, query, setDoc, updateDoc, where } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import { Role } from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useRooms } from '@/hooks/useRooms';
+import { useSchedulingSettings } from '@/hooks/useSchedulingSettings';
+import { EnforcementLevel, ENFORCEMENT_LABELS } from '@/utils/schedulingSettings';
+import { Room, ROOM_TYPE_LABELS, RoomType } from '@/utils/rooms';
+import { isValidTimeRange, normalizeRoomName } from '@/lib/scheduling/conflicts';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faEdit, faTrash } from '@fortawesome/free-solid-svg-icons';
+
+const EMPTY_FORM = {
+  code: '',
+  building: '',
+  capacity: '',
+  type: 'lecture' as RoomType,
+  availableFrom: '',
+  availableTo: '',
+};
+
+export default function RoomManagement({ currentUserRole }: { currentUserRole: Role }) {
+  const { permissions } = usePermissions();
+  const { rooms, loading } = useRooms();
+  const { settings } = useSchedulingSettings();
+  const [form, setForm] = useState(EMPTY_FORM);
+  // Room being edited in the form, if any
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [filterBuilding, setFilterBuilding] = useState('');
+
+  if (!permissions[currentUserRole]?.canManageRooms) {
+    return (
+      <div className="p-6 bg-white rounded-xl shadow-lg">
+        <h3 className="text-red-500">You don't have permission to manage rooms</h3>
+      </div>
+    );
+  }
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const isRoomInUse = async (code: string) =>
+    !(await getDocs(query(collection(db, 'schedules'), where('room', '==', code), limit(1)))).empty;
+
+  const handleSave = async () => {
+    // The conflict engine's canonical form, so two codes it treats as one room can't both be saved
+    const code = normalizeRoomName(form.code);
+    const capacity = Number(form.capacity);
+    if (!code || !form.building.trim() || !capacity || capacity < 1) {
+      Swal.fire('Warning', 'Code, building and a capacity of at least 1 are required', 'warning');
+      return;
+    }
+    if ((form.availableFrom || form.availableTo) && !isValidTimeRange(form.availableFrom, form.availableTo)) {
+      Swal.fire('Warning', 'Enter both available hours, with the start before the end', 'warning');
+      return;
+    }
+    if (rooms.some((room) => normalizeRoomName(room.code) === code && room.id !== editingId)) {
+      Swal.fire('Warning', `Room ${code} already exists`, 'warning');
+      return;
+    }
+    const roomData = {
+      code,
+      building: form.building.trim(),
+      capacity,
+      type: form.type,
+      availableFrom: form.availableFrom,
+      availableTo: form.availableTo,
+    };
+    try {
+      if (editingId) {
+        // Schedules refer to rooms by code, so a renamed room would orphan its bookings
+        const previous = rooms.find((room) => room.id === editingId);
+        if (previous && previous.code !== code && (await isRoomInUse(previous.code))) {
+          Swal.fire('Warning', `${previous.code} has schedule entries, so its code can't change`, 'warning');
+          return;
+        }
+        await updateDoc(doc(db, 'rooms', editingId), roomData);
+        Swal.fire('Success', 'Room updated successfully', 'success');
+      } else {
+        const room: Room = { ...roomData, createdAt: new Date().toISOString() };
+        await addDoc(collection(db, 'rooms'), room);
+        Swal.fire('Success', 'Room created successfully', 'success');
+      }
+      resetForm();
+    } catch (error) {
+      Swal.fire('Error', 'Failed to save room', 'error');
+    }
+  };
+
+  const handleCapacityEnforcementChange = async (capacityEnforcement: EnforcementLevel) => {
+    try {
+      await setDoc(doc(db, 'settings', 'scheduling'), { capacityEnforcement }, { merge: true });
+    } catch (error) {
+      Swal.fire('Error', 'Failed to update the capacity rule', 'error');
+    }
+  };
+
+  const handleEdit = (room: Room) => {
+    setEditingId(room.id!);
+    setForm({
+      code: room.code,
+      building: room.building,
+      capacity: String(room.capacity),
+      type: room.type,
+      availableFrom: room.availableFrom ?? '',
+      availableTo: room.availableTo ?? '',
+    });
+  };
+
+  const handleDelete = async (room: Room) => {
+    try {
+      if (await isRoomInUse(room.code)) {
+        Swal.fire('Cannot delete', `${room.code} has schedule entries. Move them to another room first.`, 'warning');
+        return;
+      }
+      const confirmResult = await Swal.fire({
+        title: 'Are you sure?',
+        text: `This will delete room ${room.code}.`,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: 'Yes, delete it!',
+      });
+      if (!confirmResult.isConfirmed) return;
+      await deleteDoc(doc(db, 'rooms', room.id!));
+      Swal.fire('Deleted!', 'Room deleted.', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to delete room', 'error');
+    }
+  };
+
+  const buildings = Array.from(new Set(rooms.map((room) => room.building)));
+  const filteredRooms = rooms.filter((room) => !filterBuilding || room.building === filterBuilding);
+
+  const columns = [
+    { name: 'Code', selector: (row: Room) => row.code, sortable: true },
+    { name: 'Building', selector: (row: Room) => row.building, sortable: true },
+    { name: 'Type', selector: (row: Room) => ROOM_TYPE_LABELS[row.type], sortable: true },
+    { name: 'Capacity', selector: (row: Room) => row.capacity, sortable: true },
+    {
+      name: 'Available',
+      selector: (row: Room) => (row.availableFrom && row.availableTo ? `${row.availableFrom}-${row.availableTo}` : 'Any time'),
+    },
+    {
+      name: 'Actions',
+      cell: (row: Room) => (
+        <div className="flex gap-3">
+          <button onClick={() => handleEdit(row)} className="text-primary" title="Edit">
+            <FontAwesomeIcon icon={faEdit} />
+          </button>
+          <button onClick={() => handleDelete(row)} className="text-red-500" title="Delete">
+            <FontAwesomeIcon icon={faTrash} />
+          </button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-8">
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <h2 className="text-2xl font-bold text-primary mb-4">{editingId ? 'Edit Room' : 'Add Room'}</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <input
+            type="text"
+            value={form.code}
+            onChange={(e) => setForm({ ...form, code: e.target.value })}
+            placeholder="Room Code (e.g. RM 101)"
+            className="p-3 border rounded-lg"
+          />
+          <input
+            type="text"
+            value={form.building}
+            onChange={(e) => setForm({ ...form, building: e.target.value })}
+            placeholder="Building"
+            className="p-3 border rounded-lg"
+          />
+          <input
+            type="number"
+            min={1}
+            value={form.capacity}
+            onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+            placeholder="Capacity"
+            className="p-3 border rounded-lg"
+          />
+          <select
+            value={form.type}
+            onChange={(e) => setForm({ ...form, type: e.target.value as RoomType })}
+            className="p-3 border rounded-lg"
+          >
+            {(Object.keys(ROOM_TYPE_LABELS) as RoomType[]).map((type) => (
+              <option key={type} value={type}>
+                {ROOM_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Available from (optional)</label>
+            <input
+              type="time"
+              value={form.availableFrom}
+              onChange={(e) => setForm({ ...form, availableFrom: e.target.value })}
+              className="w-full p-3 border rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Available to (optional)</label>
+            <input
+              type="time"
+              value={form.availableTo}
+              onChange={(e) => setForm({ ...form, availableTo: e.target.value })}
+              className="w-full p-3 border rounded-lg"
+            />
+          </div>
+        </div>
+        <div className="flex gap-4 mt-4">
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-primary text-white px-6 py-3 rounded-lg hover:bg-accent-blue transition-colors"
+          >
+            {editingId ? 'Save Room' : 'Add Room'}
+          </button>
+          {editingId && (
+            <button onClick={resetForm} className="bg-gray-300 hover:bg-gray-400 px-6 py-3 rounded-lg transition-colors">
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <h2 className="text-2xl font-bold text-primary mb-2">Capacity Rule</h2>
+        <p className="text-gray-600 mb-4">
+          What happens when a section has more students than the room it is scheduled in.
+        </p>
+        <select
+          value={settings.capacityEnforcement}
+          onChange={(e) => handleCapacityEnforcementChange(e.target.value as EnforcementLevel)}
+          className="p-3 border rounded-lg"
+        >
+          {(Object.keys(ENFORCEMENT_LABELS) as EnforcementLevel[]).map((level) => (
+            <option key={level} value={level}>
+              {ENFORCEMENT_LABELS[level]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <div className="mb-4 flex flex-wrap items-center gap-4">
+          <h3 className="text-xl font-semibold text-primary">Filter Rooms:</h3>
+          <select value={filterBuilding} onChange={(e) => setFilterBuilding(e.target.value)} className="p-2 border rounded">
+            <option value="">All Buildings</option>
+            {buildings.map((building) => (
+              <option key={building} value={building}>
+                {building}
+              </option>
+            ))}
+          </select>
+        </div>
+        <DataTable
+          title="Rooms"
+          columns={columns}
+          data={filteredRooms}
+          progressPending={loading}
+          pagination
+          responsive
+          highlightOnHover
+          customStyles={{
+            headCells: {
+              style: {
+                fontWeight: 'bold',
+                backgroundColor: '#f3f4f6',
+              },
+            },
+          }}
+        />
+      </div>
+    </motion.div>
+  );
+}
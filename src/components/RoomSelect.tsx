@@ -0,0 +1,32 @@
+'use client';
+import Select from 'react-select';
+import { getRoomLabel, Room } from '@/utils/rooms';
+
+// Searchable room picker; the value is the room code stored in Schedule.room
+export default function RoomSelect({
+  rooms,
+  value,
+  onChange,
+  placeholder = 'Select Room',
+}: {
+  rooms: Room[];
+  value: string;
+  onChange: (code: string) => void;
+  placeholder?: string;
+}) {
+  const options = rooms.map((room) => ({ value: room.code, label: getRoomLabel(room) }));
+  // Entries saved before the room list existed may name a room that isn't in it
+  if (value && !rooms.some((room) => room.code === value)) {
+    options.unshift({ value, label: `${value} (not in room list)` });
+  }
+  return (
+    <Select
+      options={options}
+      value={options.find((option) => option.value === value) ?? null}
+      onChange={(selected: any) => onChange(selected?.value ?? '')}
+      isClearable
+      placeholder={placeholder}
+      classNamePrefix="select"
+    />
+  );
+}
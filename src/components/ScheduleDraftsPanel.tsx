@@ -0,0 +1,288 @@
+'use client';
+import { db } from '@/utils/firebase';
+import { collection, doc, writeBatch } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import { escapeHtml } from '@/utils/html';
+import { ScheduleStatus } from '@/utils/scheduleStatus';
+import {
+  compareSchedules,
+  DRAFT_STATUS_LABELS,
+  isPublishedSchedule,
+  ScheduleDraft,
+  ScheduleMeeting,
+} from '@/utils/scheduleDrafts';
+
+export interface DraftSchedule {
+  id?: string;
+  subjectId: string;
+  teacherId: string;
+  room: string;
+  sectionId?: string;
+  days: string[];
+  startTime: string;
+  endTime: string;
+  departmentId: string;
+  createdAt?: string;
+  approved?: boolean;
+  status?: ScheduleStatus;
+  declineReason?: string;
+  respondedAt?: string;
+  draftId?: string;
+  termId?: string;
+  qualificationOverride?: string;
+}
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 450;
+
+const chunk = <T,>(items: T[]): T[][] =>
+  Array.from({ length: Math.ceil(items.length / BATCH_SIZE) }, (_, i) => items.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE));
+
+/**
+ * Creates a draft holding copies of `entries` (new ids, moved into `termId`, back to Pending) and returns its id.
+ * The draft document goes in the last batch so it only appears once its entries exist.
+ */
+export const saveDraftWithEntries = async (draft: ScheduleDraft, entries: DraftSchedule[], termId: string) => {
+  const draftRef = doc(collection(db, 'scheduleDrafts'));
+  const batches = chunk(entries);
+  if (batches.length === 0) batches.push([]);
+  for (const [index, group] of batches.entries()) {
+    const batch = writeBatch(db);
+    // Teachers answer each copy afresh, so the source's response doesn't carry over
+    group.forEach(({ id, approved, status, declineReason, respondedAt, ...entry }) => {
+      batch.set(doc(collection(db, 'schedules')), {
+        ...entry,
+        ...(termId ? { termId } : {}),
+        draftId: draftRef.id,
+        approved: false,
+        status: 'pending',
+        declineReason: '',
+        createdAt: new Date().toISOString(),
+      });
+    });
+    if (index === batches.length - 1) batch.set(draftRef, { ...draft, ...(termId ? { termId } : {}) });
+    await batch.commit();
+  }
+  return draftRef.id;
+};
+
+// Draft picker with create/copy, compare, publish and delete actions
+export default function ScheduleDraftsPanel({
+  drafts,
+  schedules,
+  termId,
+  termLabel,
+  activeDraftId,
+  onSelectDraft,
+  canManageDrafts,
+  currentUserId,
+  getSubjectName,
+  getTeacherName,
+}: {
+  drafts: ScheduleDraft[]; // The selected term's drafts
+  schedules: DraftSchedule[]; // The selected term's entries, across drafts
+  termId: string;
+  termLabel: string;
+  activeDraftId: string; // '' for the published timetable
+  onSelectDraft: (draftId: string) => void;
+  canManageDrafts: boolean; // Create, publish and delete; department-scoped roles only work inside drafts
+  currentUserId: string;
+  getSubjectName: (subjectId: string) => string;
+  getTeacherName: (teacherId: string) => string;
+}) {
+  const activeDraft = drafts.find((d) => d.id === activeDraftId);
+  const entriesOf = (draftId: string) =>
+    draftId ? schedules.filter((s) => s.draftId === draftId) : schedules.filter((s) => isPublishedSchedule(s, drafts));
+
+  const handleNewDraft = async () => {
+    const { value, isConfirmed } = await Swal.fire({
+      title: 'New Draft',
+      html: `
+        <p>Term: ${escapeHtml(termLabel)}</p>
+        <input id="draft-name" class="swal2-input" placeholder="Draft name (e.g. ${escapeHtml(termLabel)} draft 2)" />
+        <label class="swal2-checkbox" style="display:flex">
+          <input id="draft-copy" type="checkbox" checked />
+          <span class="swal2-label">Copy entries from ${activeDraft ? `"${escapeHtml(activeDraft.name)}"` : 'the published timetable'}</span>
+        </label>`,
+      showCancelButton: true,
+      confirmButtonText: 'Create',
+      preConfirm: () => {
+        const name = (document.getElementById('draft-name') as HTMLInputElement).value.trim();
+        const copy = (document.getElementById('draft-copy') as HTMLInputElement).checked;
+        if (!name) {
+          Swal.showValidationMessage('Please enter a draft name');
+          return;
+        }
+        return { name, copy };
+      },
+    });
+    if (!isConfirmed || !value) return;
+
+    try {
+      const draft: ScheduleDraft = {
+        name: value.name,
+        status: 'draft',
+        createdAt: new Date().toISOString(),
+        createdBy: currentUserId,
+      };
+      const copies = value.copy ? entriesOf(activeDraftId) : [];
+      const draftId = await saveDraftWithEntries(draft, copies, termId);
+      onSelectDraft(draftId);
+      Swal.fire('Created', `Draft "${escapeHtml(draft.name)}" created with ${copies.length} entries.`, 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to create draft', 'error');
+    }
+  };
+
+  const describeMeeting = (m: ScheduleMeeting) =>
+    escapeHtml(`${getSubjectName(m.subjectId)}, ${m.day} ${m.startTime}-${m.endTime}, ${m.room}, ${getTeacherName(m.teacherId)}`);
+
+  const handleCompare = async () => {
+    const inputOptions: Record<string, string> = activeDraftId ? { published: 'Published timetable' } : {};
+    drafts
+      .filter((d) => d.id !== activeDraftId)
+      .forEach((d) => {
+        inputOptions[d.id!] = `${d.name} (${DRAFT_STATUS_LABELS[d.status]})`;
+      });
+    const { value: otherId, isConfirmed } = await Swal.fire({
+      title: 'Compare with',
+      input: 'select',
+      inputOptions,
+      showCancelButton: true,
+    });
+    if (!isConfirmed || !otherId) return;
+
+    const otherName = otherId === 'published' ? 'the published timetable' : inputOptions[otherId];
+    const { added, removed, changed } = compareSchedules(
+      entriesOf(otherId === 'published' ? '' : otherId),
+      entriesOf(activeDraftId)
+    );
+    const section = (title: string, lines: string[]) =>
+      lines.length ? `<h4 style="font-weight:bold;margin-top:8px">${title} (${lines.length})</h4>${lines.join('<br/>')}` : '';
+    Swal.fire({
+      title: 'Differences',
+      width: 800,
+      html:
+        `<div style="text-align:left;font-size:14px">` +
+        `<p>Changes going from ${escapeHtml(otherName)} to ${activeDraft ? `"${escapeHtml(activeDraft.name)}"` : 'the published timetable'}.</p>` +
+        (section('Added', added.map(describeMeeting)) +
+          section('Removed', removed.map(describeMeeting)) +
+          section(
+            'Changed',
+            changed.map(
+              ({ before, after }) =>
+                `${describeMeeting(before)} &rarr; ${escapeHtml(`${after.day} ${after.startTime}-${after.endTime}, ${after.room}, ${getTeacherName(after.teacherId)}`)}`
+            )
+          ) || '<p>No differences.</p>') +
+        `</div>`,
+    });
+  };
+
+  // Flips the draft live and archives the term's previous version. Writes are chunked to stay under the batch
+  // limit, with the flip in the last batch so the new version goes live together with the final archive writes.
+  const handlePublish = async () => {
+    if (!activeDraft?.id) return;
+    const previous = drafts.filter((d) => d.status === 'published');
+    const confirmResult = await Swal.fire({
+      titleText: `Publish "${activeDraft.name}"?`,
+      text:
+        `Its ${entriesOf(activeDraft.id).length} entries become visible to teachers` +
+        (previous.length ? `, replacing "${previous.map((d) => d.name).join('", "')}".` : '.'),
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Publish',
+    });
+    if (!confirmResult.isConfirmed) return;
+    try {
+      const batches = chunk(previous);
+      if (batches.length === 0) batches.push([]);
+      for (const [index, group] of batches.entries()) {
+        const batch = writeBatch(db);
+        group.forEach((d) => batch.update(doc(db, 'scheduleDrafts', d.id!), { status: 'archived' }));
+        if (index === batches.length - 1) {
+          batch.update(doc(db, 'scheduleDrafts', activeDraft.id), {
+            status: 'published',
+            publishedAt: new Date().toISOString(),
+            publishedBy: currentUserId,
+          });
+        }
+        await batch.commit();
+      }
+      Swal.fire('Published', 'Teachers can now see and respond to this timetable.', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to publish draft', 'error');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeDraft?.id) return;
+    const entries = entriesOf(activeDraft.id);
+    const confirmResult = await Swal.fire({
+      titleText: `Delete "${activeDraft.name}"?`,
+      text: `This will delete the draft and its ${entries.length} entries.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Yes, delete it!',
+    });
+    if (!confirmResult.isConfirmed) return;
+    try {
+      for (const group of chunk(entries)) {
+        const batch = writeBatch(db);
+        group.forEach((entry) => batch.delete(doc(db, 'schedules', entry.id!)));
+        await batch.commit();
+      }
+      const batch = writeBatch(db);
+      batch.delete(doc(db, 'scheduleDrafts', activeDraft.id));
+      await batch.commit();
+      onSelectDraft('');
+      Swal.fire('Deleted!', 'Draft deleted.', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to delete draft', 'error');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg">
+      <div className="flex flex-wrap items-center gap-4">
+        <h2 className="text-2xl font-bold text-primary">Timetable Version:</h2>
+        <select value={activeDraftId} onChange={(e) => onSelectDraft(e.target.value)} className="p-2 border rounded">
+          <option value="">Published timetable</option>
+          {drafts.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.name} ({DRAFT_STATUS_LABELS[d.status]})
+            </option>
+          ))}
+        </select>
+        {canManageDrafts && (
+          <button onClick={handleNewDraft} className="bg-primary hover:bg-accent-blue text-white px-4 py-2 rounded-lg transition-colors">
+            New Draft
+          </button>
+        )}
+        <button
+          onClick={handleCompare}
+          disabled={drafts.length === 0}
+          className="border border-primary text-primary px-4 py-2 rounded-lg hover:bg-primary/10 transition-colors disabled:opacity-50"
+        >
+          Compare
+        </button>
+        {canManageDrafts && activeDraft?.status === 'draft' && (
+          <>
+            <button onClick={handlePublish} className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors">
+              Publish
+            </button>
+            <button onClick={handleDelete} className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-colors">
+              Delete Draft
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mt-2">
+        {activeDraft
+          ? activeDraft.status === 'draft'
+            ? 'New entries are added to this draft and stay hidden from teachers until it is published.'
+            : 'New entries can only be added to drafts; create one from this version to rework it.'
+          : `This is what teachers see for ${termLabel}. Create a draft to add entries or rework the timetable.`}
+      </p>
+    </div>
+  );
+}
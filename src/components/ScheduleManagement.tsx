@@ -21,7 +21,50 @@ import {
   where,
 } from 'firebase/firestore';
 import Swal from 'sweetalert2';
-import { Role, ROLES } from '@/utils/roles';
+import { isDepartmentScoped, Role } from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  getScheduleStatus,
+  SCHEDULE_STATUS_COLORS,
+  SCHEDULE_STATUS_LABELS,
+  ScheduleStatus,
+} from '@/utils/scheduleStatus';
+import { isPublishedSchedule, ScheduleDraft } from '@/utils/scheduleDrafts';
+import { getTermLabel, isInTerm, isOfferedInTerm } from '@/utils/academicTerms';
+import { useAcademicTerms } from '@/hooks/useAcademicTerms';
+import { useRooms } from '@/hooks/useRooms';
+import { getCapacityWarning, getRoomWarnings, RoomType } from '@/utils/rooms';
+import { useSections } from '@/hooks/useSections';
+import { getSectionLabel } from '@/utils/sections';
+import { useSchedulingSettings } from '@/hooks/useSchedulingSettings';
+import { useTeacherAvailability } from '@/hooks/useTeacherAvailability';
+import { getDaysOutsidePreferred, toUnavailableBlocks } from '@/utils/teacherAvailability';
+import { useTeacherQualifications } from '@/hooks/useTeacherQualifications';
+import { isQualified } from '@/utils/qualifications';
+import { Teacher } from '@/utils/teachers';
+import { escapeHtml } from '@/utils/html';
+import { getEmploymentType } from '@/utils/schedulingSettings';
+import {
+  describeConflict,
+  findConflicts,
+  hasConflicts,
+  isValidTimeRange,
+  minutesToTime,
+  ScheduleConflict,
+  timeToMinutes,
+  toMinuteRange,
+} from '@/lib/scheduling/conflicts';
+import { findNextFreeSlot } from '@/lib/scheduling/slots';
+import { projectOverload } from '@/lib/scheduling/load';
+import { ScheduleChangeRequest } from './ApproveScheduleManagement';
+import ConflictPanel from './ConflictPanel';
+import FreeSlotFinder from './FreeSlotFinder';
+import AvailabilityEditor from './AvailabilityEditor';
+import TimetableGenerator from './TimetableGenerator';
+import ScheduleDraftsPanel from './ScheduleDraftsPanel';
+import TermRollover from './TermRollover';
+import TeachingLoadSummary from './TeachingLoadSummary';
+import RoomSelect from './RoomSelect';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { faEdit, faTrash, faFileExport } from '@fortawesome/free-solid-svg-icons';
 
@@ -31,12 +74,19 @@ interface Schedule {
   subjectId: string;
   teacherId: string;
   room: string;
+  sectionId?: string; // Student section; required for new entries, missing on older ones
   days: string[];
   startTime: string;
   endTime: string;
   departmentId: string;
   createdAt: string;
   approved?: boolean;
+  status?: ScheduleStatus; // Set by the assigned teacher from the Approve tab
+  declineReason?: string;
+  respondedAt?: string;
+  draftId?: string; // The draft this entry belongs to; see scheduleDrafts.ts
+  termId?: string;
+  qualificationOverride?: string; // Why a teacher not qualified for the subject was assigned anyway
 }
 
 interface SubjectData {
@@ -45,6 +95,10 @@ interface SubjectData {
   subjectName: string;
   departmentId: string;
   courseId?: string;
+  units?: string;
+  semester?: string;
+  termIds?: string[];
+  roomType?: RoomType | ''; // Kind of room the subject needs, e.g. a lab; '' means any
   fixedSchedule?: {
     days: string[];
     startTime: string;
@@ -67,14 +121,32 @@ const localizer = moment.locale('en');
 export default function ScheduleManagement({
   currentUserRole,
   currentUserDepartment,
+  currentUserId,
+  termId = '',
 }: {
   currentUserRole: Role;
   currentUserDepartment?: string;
+  currentUserId?: string;
+  termId?: string; // Selected academic term; '' when no terms are set up
 }) {
+  const { permissions } = usePermissions();
+  const { terms, currentTermId } = useAcademicTerms();
+  const { rooms } = useRooms();
+  const { sections } = useSections();
+  const { settings: schedulingSettings } = useSchedulingSettings();
+  const capacityIsHard = schedulingSettings.capacityEnforcement === 'hard';
+  const { availabilities, loading: availabilityLoading } = useTeacherAvailability();
+  const unavailable = toUnavailableBlocks(availabilities);
+  const getAvailability = (teacherId: string) => availabilities.find((a) => a.teacherId === teacherId);
+  const { qualifications } = useTeacherQualifications();
+  const term = terms.find((t) => t.id === termId);
+  // Department-scoped roles (e.g. dept head) are locked to their own department
+  const departmentScoped = isDepartmentScoped(permissions, currentUserRole);
+  const canManageSchedule = permissions[currentUserRole]?.canManageSchedule ?? false;
   // States for schedules, subjects, teachers, departments, courses, etc.
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [subjects, setSubjects] = useState<SubjectData[]>([]);
-  const [teachers, setTeachers] = useState<any[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [courses, setCourses] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
@@ -88,20 +160,46 @@ export default function ScheduleManagement({
     subjectId: '',
     teacherId: '',
     room: '',
+    sectionId: '',
     days: [] as string[],
     startTime: '',
     endTime: '',
+    qualificationOverride: '',
   });
 
   // State for editing a schedule (single schedule entry)
   const [editSchedule, setEditSchedule] = useState<Schedule | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  // Set when the scheduler lists every teacher instead of only those qualified for the subject
+  const [overrideNewTeacher, setOverrideNewTeacher] = useState(false);
+  const [overrideEditTeacher, setOverrideEditTeacher] = useState(false);
 
   // Filtering states for DataTable view
   const [filterDepartment, setFilterDepartment] = useState<string>('');
   const [filterRole, setFilterRole] = useState<string>('');
+  const [filterStatus, setFilterStatus] = useState<string>('');
+  const [filterSection, setFilterSection] = useState<string>('');
+  // Section shown in the per-section weekly timetable
+  const [timetableSectionId, setTimetableSectionId] = useState<string>('');
+  const [showCapacityReport, setShowCapacityReport] = useState(false);
+  const [showLoadSummary, setShowLoadSummary] = useState(false);
+  // Teacher whose availability grid is open in the "Teacher Availability" card
+  const [availabilityTeacherId, setAvailabilityTeacherId] = useState<string>('');
+  // Teacher change requests awaiting review
+  const [changeRequests, setChangeRequests] = useState<ScheduleChangeRequest[]>([]);
   // For DataTable row selection
   const [selectedRows, setSelectedRows] = useState<Schedule[]>([]);
+  const [showSlotFinder, setShowSlotFinder] = useState(false);
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [showRollover, setShowRollover] = useState(false);
+  const [drafts, setDrafts] = useState<ScheduleDraft[]>([]);
+  // '' shows the published timetable
+  const [activeDraftId, setActiveDraftId] = useState('');
+  // Clashes found when saving, and which form they came from
+  const [conflictReport, setConflictReport] = useState<{
+    conflicts: ScheduleConflict<Schedule>[];
+    source: 'create' | 'edit';
+  } | null>(null);
 
   // --- Data Fetching on Mount ---
   useEffect(() => {
@@ -116,7 +214,7 @@ export default function ScheduleManagement({
         const teacherQuery = query(collection(db, 'users'), where('role', '==', 'teacher'));
         const teacherSnapshot = await getDocs(teacherQuery);
         setTeachers(
-          teacherSnapshot.docs.map(d => ({ ...d.data(), id: d.id }))
+          teacherSnapshot.docs.map(d => ({ ...d.data(), id: d.id } as Teacher))
         );
         // Fetch departments
         const deptSnapshot = await getDocs(collection(db, 'departments'));
@@ -134,10 +232,24 @@ export default function ScheduleManagement({
       setLoading(false);
     };
 
-    if (ROLES[currentUserRole]?.canManageSchedule) {
+    if (canManageSchedule) {
       fetchData();
     }
-  }, [currentUserRole]);
+  }, [canManageSchedule]);
+
+  // Real-time listener for pending change requests (limited to the user's department when scoped)
+  useEffect(() => {
+    if (!canManageSchedule) return;
+    const q = query(collection(db, 'scheduleChangeRequests'), where('status', '==', 'pending'));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setChangeRequests(
+        snapshot.docs
+          .map((d) => ({ ...d.data(), id: d.id } as ScheduleChangeRequest))
+          .filter((r) => !departmentScoped || r.departmentId === currentUserDepartment)
+      );
+    });
+    return () => unsubscribe();
+  }, [canManageSchedule, departmentScoped, currentUserDepartment]);
 
   // Real-time listener for schedules with a slight 500ms delay
   useEffect(() => {
@@ -149,9 +261,21 @@ export default function ScheduleManagement({
     return () => unsubscribe();
   }, []);
 
+  // Real-time listener for timetable drafts, newest first
+  useEffect(() => {
+    const unsubscribe = onSnapshot(collection(db, 'scheduleDrafts'), (snapshot) => {
+      setDrafts(
+        snapshot.docs
+          .map((d) => ({ ...d.data(), id: d.id } as ScheduleDraft))
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      );
+    });
+    return () => unsubscribe();
+  }, []);
+
   // If current user is a dept head, lock department selection to their department.
   useEffect(() => {
-    if (currentUserRole === 'dept_head' && currentUserDepartment) {
+    if (departmentScoped && currentUserDepartment) {
       setSelectedDept(currentUserDepartment);
       // Also load courses for the locked department.
       (async () => {
@@ -165,7 +289,7 @@ export default function ScheduleManagement({
         }
       })();
     }
-  }, [currentUserRole, currentUserDepartment]);
+  }, [departmentScoped, currentUserDepartment]);
 
   // --- Cascading Subject Selection Handlers ---
   const handleSelectedDeptChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -193,7 +317,14 @@ export default function ScheduleManagement({
 
   const handleSubjectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const subjectId = e.target.value;
-    setNewSchedule(prev => ({ ...prev, subjectId }));
+    // Keep the section only if it is a block of the new subject's course
+    const courseSections = getSubjectSections(subjectId);
+    setNewSchedule(prev => ({
+      ...prev,
+      subjectId,
+      sectionId: courseSections.some((section) => section.id === prev.sectionId) ? prev.sectionId : '',
+      teacherId: overrideNewTeacher || isQualified(qualifications, prev.teacherId, subjectId) ? prev.teacherId : '',
+    }));
     const selectedSubject = subjects.find(sub => sub.id === subjectId);
     const fixedSchedule = selectedSubject?.fixedSchedule;
     if (fixedSchedule) {
@@ -212,6 +343,7 @@ export default function ScheduleManagement({
       Swal.fire('Info', 'Please select at least one schedule to delete', 'info');
       return;
     }
+    if (!ensureEditableView()) return;
 
     const confirmResult = await Swal.fire({
       title: 'Are you sure?',
@@ -239,71 +371,309 @@ export default function ScheduleManagement({
   };
 
   // --- Helper Functions ---
-  const timeToMinutes = (timeStr: string): number => {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    return hours * 60 + minutes;
+  // Entries of the selected term and version; conflicts are only checked within one version
+  const termSchedules = schedules.filter((sch) => isInTerm(sch, termId, currentTermId));
+  const termDrafts = drafts.filter((d) => isInTerm(d, termId, currentTermId));
+  const termSubjects = subjects.filter((sub) => isOfferedInTerm(sub, termId));
+  const activeDraft = termDrafts.find((d) => d.id === activeDraftId);
+  const publishedSchedules = termSchedules.filter((sch) => isPublishedSchedule(sch, termDrafts));
+  const viewSchedules = activeDraft ? termSchedules.filter((sch) => sch.draftId === activeDraft.id) : publishedSchedules;
+  const canAddToView = activeDraft?.status === 'draft';
+
+  // Published and archived entries only change through a draft, so teachers never see half-made edits
+  const ensureEditableView = () => {
+    if (canAddToView) return true;
+    Swal.fire(
+      'Info',
+      'Published entries can\'t be changed directly. Create a draft that copies the published timetable, make the changes there, then publish it.',
+      'info'
+    );
+    return false;
   };
 
-  // Conflict detection: iterate over each selected day
-  const hasConflict = (newSch: typeof newSchedule): boolean => {
-    const newStart = timeToMinutes(newSch.startTime);
-    const newEnd = timeToMinutes(newSch.endTime);
-    for (const day of newSch.days) {
-      for (const sch of schedules) {
-        if (!sch.days.includes(day)) continue;
-        if (sch.teacherId === newSch.teacherId) {
-          const existingStart = timeToMinutes(sch.startTime);
-          const existingEnd = timeToMinutes(sch.endTime);
-          if (newStart < existingEnd && newEnd > existingStart) return true;
-        }
-        if (sch.room === newSch.room) {
-          const existingStart = timeToMinutes(sch.startTime);
-          const existingEnd = timeToMinutes(sch.endTime);
-          if (newStart < existingEnd && newEnd > existingStart) return true;
+  // Conflict messages for the alert, naming the clashing subject
+  const describeConflicts = (conflicts: ScheduleConflict<Schedule>[]) =>
+    conflicts.map((c) => describeConflict(c, c.schedule ? getSubjectName(c.schedule.subjectId) : getTeacherName(c.block.teacherId)));
+
+  const getSubjectName = (subjectId: string) => subjects.find((s) => s.id === subjectId)?.subjectName ?? subjectId;
+
+  const getTeacherName = (teacherId: string) => {
+    const teacher = teachers.find((t) => t.id === teacherId);
+    return teacher ? `${teacher.firstName} ${teacher.lastName}` : teacherId;
+  };
+
+  const getSectionName = (sectionId?: string) => {
+    const section = sections.find((s) => s.id === sectionId);
+    return section ? getSectionLabel(section) : '';
+  };
+
+  // Sections that can take a subject: the blocks of the subject's course
+  const getSubjectSections = (subjectId: string) => {
+    const courseId = subjects.find((s) => s.id === subjectId)?.courseId;
+    return sections.filter((section) => section.courseId === courseId);
+  };
+
+  // Move the form that hit the conflicts to the earliest clash-free time on the same days
+  const handlePickNextFreeSlot = () => {
+    if (!conflictReport) return;
+    const candidate = conflictReport.source === 'edit' ? editSchedule : newSchedule;
+    if (!candidate) return;
+    const slot = findNextFreeSlot(candidate, viewSchedules, {
+      ignoreId: conflictReport.source === 'edit' ? editSchedule?.id : undefined,
+      unavailable,
+      preferred: getAvailability(candidate.teacherId)?.preferred,
+    });
+    if (!slot) {
+      Swal.fire('Info', 'No free slot left on the selected days. Try different days or another room.', 'info');
+      return;
+    }
+    if (conflictReport.source === 'edit' && editSchedule) {
+      setEditSchedule({ ...editSchedule, ...slot });
+    } else {
+      setNewSchedule({ ...newSchedule, ...slot });
+    }
+    setConflictReport(null);
+  };
+
+  // Review a teacher's change request with a preview of the conflicts it would cause
+  const handleReviewChangeRequest = async (request: ScheduleChangeRequest) => {
+    const sch = schedules.find((s) => s.id === request.scheduleId);
+    const resolve = async (status: 'approved' | 'rejected', reviewNote: string) => {
+      await updateDoc(doc(db, 'scheduleChangeRequests', request.id!), {
+        status,
+        reviewNote,
+        reviewedBy: currentUserId ?? '',
+        reviewedAt: new Date().toISOString(),
+      });
+    };
+
+    if (!sch) {
+      try {
+        await resolve('rejected', 'The schedule entry no longer exists');
+        Swal.fire('Info', 'The schedule entry no longer exists, so the request was closed.', 'info');
+      } catch (error) {
+        Swal.fire('Error', 'Failed to close the change request', 'error');
+      }
+      return;
+    }
+
+    // A publish since the request was filed archived this copy, so applying it wouldn't change the live timetable
+    const entryDrafts = drafts.filter((d) => isInTerm(d, sch.termId || currentTermId, currentTermId));
+    if (!isPublishedSchedule(sch, entryDrafts)) {
+      try {
+        await resolve('rejected', 'The entry is no longer in the published timetable. Please file a new request.');
+        Swal.fire('Info', 'The entry is no longer in the published timetable, so the request was closed.', 'info');
+      } catch (error) {
+        Swal.fire('Error', 'Failed to close the change request', 'error');
+      }
+      return;
+    }
+
+    // Proposals and reasons come from the teacher, so everything is escaped before it goes into the dialog
+    const describe = (s: Pick<Schedule, 'days' | 'startTime' | 'endTime' | 'room'>) =>
+      escapeHtml(`${s.days.join(', ')} ${s.startTime}-${s.endTime}, Room ${s.room}`);
+    const conflicts =
+      request.type === 'update' && request.proposed
+        ? describeConflicts(
+            findConflicts({ ...request.proposed, teacherId: sch.teacherId, sectionId: sch.sectionId }, publishedSchedules, {
+              ignoreId: sch.id,
+              unavailable,
+            })
+          )
+        : [];
+    const conflictHtml = conflicts.length
+      ? `<p class="mt-3 font-semibold text-red-600">Conflicts:</p><ul class="text-red-600 text-sm">${conflicts
+          .map((c) => `<li>${escapeHtml(c)}</li>`)
+          .join('')}</ul>`
+      : request.type === 'update'
+        ? '<p class="mt-3 text-green-600">No conflicts detected.</p>'
+        : '';
+
+    const result = await Swal.fire({
+      title: request.type === 'remove' ? 'Removal Request' : 'Change Request',
+      html: `<div class="text-left">
+          <p><b>Subject:</b> ${escapeHtml(getSubjectName(sch.subjectId))}</p>
+          <p><b>Current:</b> ${describe(sch)}</p>
+          ${request.proposed ? `<p><b>Proposed:</b> ${describe(request.proposed)}</p>` : '<p><b>Proposed:</b> Remove this entry</p>'}
+          <p><b>Reason:</b> ${escapeHtml(request.reason)}</p>
+          ${conflictHtml}
+        </div>`,
+      showConfirmButton: conflicts.length === 0,
+      confirmButtonText: request.type === 'remove' ? 'Remove Entry' : 'Apply Change',
+      showDenyButton: true,
+      denyButtonText: 'Reject',
+      showCancelButton: true,
+    });
+
+    try {
+      if (result.isConfirmed) {
+        if (request.type === 'remove') {
+          await deleteDoc(doc(db, 'schedules', sch.id!));
+        } else if (request.proposed) {
+          // Same room capacity, type and hours checks as the form and edit modal
+          if (!(await checkBookingRoom({ ...sch, ...request.proposed }))) return;
+          // The teacher proposed these values, so the entry counts as accepted
+          await updateDoc(doc(db, 'schedules', sch.id!), {
+            ...request.proposed,
+            approved: true,
+            status: 'accepted',
+            declineReason: '',
+          });
         }
+        await resolve('approved', '');
+        Swal.fire('Applied', 'The schedule has been updated.', 'success');
+      } else if (result.isDenied) {
+        const { value: note, isConfirmed } = await Swal.fire({
+          title: 'Reject Request',
+          input: 'textarea',
+          inputLabel: 'Note for the teacher',
+          showCancelButton: true,
+          confirmButtonText: 'Reject',
+        });
+        if (!isConfirmed) return;
+        await resolve('rejected', note ?? '');
+        Swal.fire('Rejected', 'The teacher can see your note in their Approve tab.', 'success');
       }
+    } catch (error: any) {
+      Swal.fire('Error', 'Failed to review change request', 'error');
     }
-    return false;
+  };
+
+  // Room type and opening-hours mismatches are allowed, but only after the scheduler confirms
+  const getBookingRoomWarnings = (sch: { subjectId: string; room: string; startTime: string; endTime: string }) =>
+    getRoomWarnings(
+      rooms.find((r) => r.code === sch.room),
+      sch,
+      subjects.find((s) => s.id === sch.subjectId)?.roomType || undefined
+    );
+
+  const getBookingCapacityWarning = (sch: { room: string; sectionId?: string }) =>
+    getCapacityWarning(
+      rooms.find((r) => r.code === sch.room),
+      sections.find((s) => s.id === sch.sectionId)?.size
+    );
+
+  // With the hard capacity rule an oversized section is refused; otherwise it joins the room warnings
+  const checkBookingRoom = async (sch: { subjectId: string; room: string; sectionId?: string; startTime: string; endTime: string }) => {
+    const capacityWarning = getBookingCapacityWarning(sch);
+    if (capacityWarning && capacityIsHard) {
+      Swal.fire('Room too small', `${capacityWarning} Pick a larger room.`, 'error');
+      return false;
+    }
+    return confirmWarnings(
+      'Room mismatch',
+      [...(capacityWarning ? [capacityWarning] : []), ...getBookingRoomWarnings(sch)],
+      'Use this room anyway'
+    );
+  };
+
+  const getUnits = (subjectId: string) => Number(subjects.find((s) => s.id === subjectId)?.units) || 0;
+
+  // Going over the teacher's maximum load for their employment type is allowed once confirmed
+  const getBookingLoadWarnings = (
+    sch: { subjectId: string; teacherId: string; room: string; sectionId?: string; days: string[]; startTime: string; endTime: string },
+    ignoreId?: string
+  ) => {
+    const teacher = teachers.find((t) => t.id === sch.teacherId);
+    if (!teacher || !sch.subjectId || sch.days.length === 0 || !isValidTimeRange(sch.startTime, sch.endTime)) return [];
+    const limit = schedulingSettings.maxLoad[getEmploymentType(teacher)];
+    return projectOverload(sch, viewSchedules, getUnits, limit, ignoreId).map(
+      (reason) => `${getTeacherName(sch.teacherId)} would teach ${reason}.`
+    );
+  };
+
+  // Teachers qualified for the subject; the override lists everyone
+  const getTeacherOptions = (subjectId: string, override: boolean) =>
+    !subjectId || override ? teachers : teachers.filter((t) => isQualified(qualifications, t.id, subjectId));
+
+  // The override reason to save with the entry, or null when an unqualified teacher has no reason yet
+  const getQualificationOverride = (sch: { subjectId: string; teacherId: string; qualificationOverride?: string }) => {
+    if (isQualified(qualifications, sch.teacherId, sch.subjectId)) return '';
+    const reason = sch.qualificationOverride?.trim() ?? '';
+    if (!reason) {
+      Swal.fire(
+        'Warning',
+        `${getTeacherName(sch.teacherId)} is not qualified for ${getSubjectName(sch.subjectId)}. Override the qualification filter and give a reason to assign them anyway.`,
+        'warning'
+      );
+      return null;
+    }
+    return reason;
+  };
+
+  // Preferred times are only a hint; unavailable times are caught by the conflict check
+  const getPreferenceHint = (sch: { teacherId: string; days: string[]; startTime: string; endTime: string }) => {
+    const days = getDaysOutsidePreferred(sch, getAvailability(sch.teacherId));
+    return days.length ? `Outside ${getTeacherName(sch.teacherId)}'s preferred times on ${days.join(', ')}.` : '';
+  };
+
+  const confirmWarnings = async (title: string, warnings: string[], confirmButtonText: string) => {
+    if (warnings.length === 0) return true;
+    const result = await Swal.fire({
+      title,
+      html: warnings.map(escapeHtml).join('<br/>'),
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText,
+    });
+    return result.isConfirmed;
   };
 
   // --- Optimized Schedule Creation ---
   const handleCreateSchedule = async () => {
-    const { subjectId, teacherId, room, days, startTime, endTime } = newSchedule;
-    if (!subjectId || !teacherId || !room || days.length === 0 || !startTime || !endTime) {
+    if (!canAddToView) {
+      Swal.fire('Info', 'Select a draft (or create one) to add schedules. Teachers see them once the draft is published.', 'info');
+      return;
+    }
+    const { subjectId, teacherId, room, sectionId, days, startTime, endTime } = newSchedule;
+    if (!subjectId || !teacherId || !room || !sectionId || days.length === 0 || !startTime || !endTime) {
       Swal.fire('Warning', 'Please fill all required fields', 'warning');
       return;
     }
-    if (timeToMinutes(startTime) >= timeToMinutes(endTime)) {
+    if (!isValidTimeRange(startTime, endTime)) {
       Swal.fire('Warning', 'Start time must be before end time', 'warning');
       return;
     }
-    if (hasConflict(newSchedule)) {
-      Swal.fire('Warning', 'Schedule conflict detected (teacher or room already booked)', 'warning');
+    const conflicts = findConflicts(newSchedule, viewSchedules, { unavailable });
+    if (conflicts.length > 0) {
+      setConflictReport({ conflicts, source: 'create' });
       return;
     }
+    setConflictReport(null);
     const subj = subjects.find(s => s.id === subjectId);
     if (!subj) {
       Swal.fire('Error', 'Selected subject not found', 'error');
       return;
     }
+    const qualificationOverride = getQualificationOverride(newSchedule);
+    if (qualificationOverride === null) return;
+    if (!(await checkBookingRoom(newSchedule))) return;
+    if (!(await confirmWarnings('Teaching overload', getBookingLoadWarnings(newSchedule), 'Assign anyway'))) return;
     for (const day of days) {
       const scheduleEntry = {
         subjectId,
         teacherId,
         room,
+        sectionId,
         days: [day], // Create an entry for this day
         startTime,
         endTime,
       };
-      if (hasConflict(scheduleEntry)) {
+      if (hasConflicts(scheduleEntry, viewSchedules, { unavailable })) {
         Swal.fire('Warning', `Conflict detected for ${day}. Skipping this day.`, 'warning');
         continue;
       }
       try {
         const scheduleData: Schedule = {
           ...scheduleEntry,
+          ...(qualificationOverride ? { qualificationOverride } : {}),
           departmentId: subj.departmentId,
+          draftId: activeDraftId,
+          ...(termId ? { termId } : {}),
           createdAt: new Date().toISOString(),
+          // New entries wait for the assigned teacher to accept them
+          approved: false,
+          status: 'pending',
         };
         await addDoc(collection(db, 'schedules'), scheduleData);
       } catch (error: any) {
@@ -315,12 +685,15 @@ export default function ScheduleManagement({
       subjectId: '',
       teacherId: '',
       room: '',
+      sectionId: '',
       days: [],
       startTime: '',
       endTime: '',
+      qualificationOverride: '',
     });
+    setOverrideNewTeacher(false);
     // Reset department if not a dept head (dept heads remain locked)
-    if (currentUserRole !== 'dept_head') {
+    if (!departmentScoped) {
       setSelectedDept('');
     }
     setSelectedCourse('');
@@ -328,7 +701,7 @@ export default function ScheduleManagement({
   };
 
   const handleDeleteSchedule = async (scheduleId?: string) => {
-    if (!scheduleId) return;
+    if (!scheduleId || !ensureEditableView()) return;
     const confirmResult = await Swal.fire({
       title: 'Are you sure?',
       text: 'This will delete the schedule entry.',
@@ -348,6 +721,7 @@ export default function ScheduleManagement({
 
   const openEditModal = (sch: Schedule) => {
     setEditSchedule(sch);
+    setOverrideEditTeacher(!!sch.qualificationOverride || !isQualified(qualifications, sch.teacherId, sch.subjectId));
     setIsEditModalOpen(true);
   };
 
@@ -358,49 +732,43 @@ export default function ScheduleManagement({
   };
 
   const handleUpdateSchedule = async () => {
-    if (!editSchedule || !editSchedule.id) return;
-    const { subjectId, teacherId, room, days, startTime, endTime } = editSchedule;
-    if (!subjectId || !teacherId || !room || days.length === 0 || !startTime || !endTime) {
+    if (!editSchedule || !editSchedule.id || !ensureEditableView()) return;
+    const { subjectId, teacherId, room, sectionId, days, startTime, endTime } = editSchedule;
+    if (!subjectId || !teacherId || !room || !sectionId || days.length === 0 || !startTime || !endTime) {
       Swal.fire('Warning', 'Please fill all required fields', 'warning');
       return;
     }
-    if (timeToMinutes(startTime) >= timeToMinutes(endTime)) {
+    if (!isValidTimeRange(startTime, endTime)) {
       Swal.fire('Warning', 'Start time must be before end time', 'warning');
       return;
     }
-    const otherSchedules = schedules.filter(sch => sch.id !== editSchedule.id);
-    const newStart = timeToMinutes(startTime);
-    const newEnd = timeToMinutes(endTime);
-    for (const day of days) {
-      for (const sch of otherSchedules) {
-        if (!sch.days.includes(day)) continue;
-        if (sch.teacherId === teacherId) {
-          const existingStart = timeToMinutes(sch.startTime);
-          const existingEnd = timeToMinutes(sch.endTime);
-          if (newStart < existingEnd && newEnd > existingStart) {
-            Swal.fire('Warning', 'Teacher conflict detected', 'warning');
-            return;
-          }
-        }
-        if (sch.room === room) {
-          const existingStart = timeToMinutes(sch.startTime);
-          const existingEnd = timeToMinutes(sch.endTime);
-          if (newStart < existingEnd && newEnd > existingStart) {
-            Swal.fire('Warning', 'Room conflict detected', 'warning');
-            return;
-          }
-        }
-      }
+    const conflicts = findConflicts(editSchedule, viewSchedules, { ignoreId: editSchedule.id, unavailable });
+    if (conflicts.length > 0) {
+      setConflictReport({ conflicts, source: 'edit' });
+      return;
+    }
+    setConflictReport(null);
+    const qualificationOverride = getQualificationOverride(editSchedule);
+    if (qualificationOverride === null) return;
+    if (!(await checkBookingRoom(editSchedule))) return;
+    if (!(await confirmWarnings('Teaching overload', getBookingLoadWarnings(editSchedule, editSchedule.id), 'Assign anyway'))) {
+      return;
     }
     try {
       const scheduleRef = doc(db, 'schedules', editSchedule.id);
+      // A changed entry needs the teacher's answer again
       await updateDoc(scheduleRef, {
         subjectId,
         teacherId,
         room,
+        sectionId,
         days,
         startTime,
         endTime,
+        qualificationOverride,
+        approved: false,
+        status: 'pending',
+        declineReason: '',
       });
       Swal.fire('Success', 'Schedule updated successfully', 'success');
       setIsEditModalOpen(false);
@@ -431,12 +799,30 @@ export default function ScheduleManagement({
         title: `Sub: ${sch.subjectId} | Room: ${sch.room}`,
         start: eventStart.toDate(),
         end: eventEnd.toDate(),
+        backgroundColor: SCHEDULE_STATUS_COLORS[getScheduleStatus(sch)],
+        borderColor: SCHEDULE_STATUS_COLORS[getScheduleStatus(sch)],
         extendedProps: { sch },
       };
     });
   };
 
-  const events = schedules.flatMap(getEventsFromSchedule);
+  const events = viewSchedules.flatMap(getEventsFromSchedule);
+  // Entries in the selected version whose section doesn't fit the room
+  const overCapacity = viewSchedules.flatMap((sch) => {
+    const room = rooms.find((r) => r.code === sch.room);
+    const section = sections.find((s) => s.id === sch.sectionId);
+    return room && section && section.size > room.capacity ? [{ sch, room, section }] : [];
+  });
+  type OverCapacityRow = (typeof overCapacity)[number];
+  const visibleSections = sections.filter((s) => !departmentScoped || s.departmentId === currentUserDepartment);
+  const sectionEvents = viewSchedules
+    .filter((sch) => sch.sectionId && sch.sectionId === timetableSectionId)
+    .flatMap((sch) =>
+      getEventsFromSchedule(sch).map((event) => ({
+        ...event,
+        title: `${getSubjectName(sch.subjectId)} | ${sch.room} | ${getTeacherName(sch.teacherId)}`,
+      }))
+    );
   const handleSelectEvent = (info: any) => {
     if (info && info.event.extendedProps.sch) {
       openEditModal(info.event.extendedProps.sch);
@@ -444,10 +830,12 @@ export default function ScheduleManagement({
   };
 
   // --- Filtering for DataTable view ---
-  const filteredSchedules = schedules.filter((sch) => {
+  const filteredSchedules = viewSchedules.filter((sch) => {
     return (
       (!filterDepartment || sch.departmentId === filterDepartment) &&
-      (!filterRole || sch.teacherId === filterRole)
+      (!filterRole || sch.teacherId === filterRole) &&
+      (!filterStatus || getScheduleStatus(sch) === filterStatus) &&
+      (!filterSection || sch.sectionId === filterSection)
     );
   });
 
@@ -471,6 +859,11 @@ export default function ScheduleManagement({
       selector: (row: Schedule) => row.room,
       sortable: true,
     },
+    {
+      name: 'Section',
+      selector: (row: Schedule) => getSectionName(row.sectionId),
+      sortable: true,
+    },
     {
       name: 'Days',
       selector: (row: Schedule) => row.days.join(', '),
@@ -486,6 +879,17 @@ export default function ScheduleManagement({
       selector: (row: Schedule) => row.endTime,
       sortable: true,
     },
+    {
+      name: 'Status',
+      selector: (row: Schedule) => SCHEDULE_STATUS_LABELS[getScheduleStatus(row)],
+      sortable: true,
+      cell: (row: Schedule) => (
+        <span title={row.declineReason || undefined} style={{ color: SCHEDULE_STATUS_COLORS[getScheduleStatus(row)] }}>
+          {SCHEDULE_STATUS_LABELS[getScheduleStatus(row)]}
+          {row.declineReason ? `: ${row.declineReason}` : ''}
+        </span>
+      ),
+    },
   ];
 
   // Custom subheader toolbar for DataTable
@@ -528,9 +932,12 @@ export default function ScheduleManagement({
                 Subject: sch.subjectId,
                 Teacher: sch.teacherId,
                 Room: sch.room,
+                Section: getSectionName(sch.sectionId),
                 Days: sch.days.join(', '),
                 'Start Time': sch.startTime,
                 'End Time': sch.endTime,
+                Status: SCHEDULE_STATUS_LABELS[getScheduleStatus(sch)],
+                'Decline Reason': sch.declineReason ?? '',
                 'Created At': sch.createdAt,
               }));
               const worksheet = XLSX.utils.json_to_sheet(data);
@@ -551,7 +958,7 @@ export default function ScheduleManagement({
     setSelectedRows(state.selectedRows);
   };
 
-  if (!ROLES[currentUserRole]?.canManageSchedule) {
+  if (!canManageSchedule) {
     return (
       <div className="p-6 bg-white rounded-xl shadow-lg">
         <h3 className="text-red-500">You don't have permission to manage schedules</h3>
@@ -559,14 +966,33 @@ export default function ScheduleManagement({
     );
   }
 
+  // Length of the time range typed into the form, used as the slot finder's default duration
+  const newScheduleRange =
+    newSchedule.startTime && newSchedule.endTime ? toMinuteRange(newSchedule.startTime, newSchedule.endTime) : null;
+  const newScheduleDuration =
+    newScheduleRange && newScheduleRange[1] > newScheduleRange[0] ? newScheduleRange[1] - newScheduleRange[0] : undefined;
+
   return (
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-8">
+      <ScheduleDraftsPanel
+        drafts={termDrafts}
+        schedules={termSchedules}
+        termId={termId}
+        termLabel={term ? getTermLabel(term) : 'this term'}
+        activeDraftId={activeDraft?.id ?? ''}
+        onSelectDraft={setActiveDraftId}
+        canManageDrafts={!departmentScoped}
+        currentUserId={currentUserId ?? ''}
+        getSubjectName={getSubjectName}
+        getTeacherName={getTeacherName}
+      />
+
       {/* Optimized Schedule Form */}
       <div className="bg-white rounded-xl p-6 shadow-lg">
         <h2 className="text-2xl font-bold text-primary mb-4">Add Schedule</h2>
         {/* Cascading subject selection: Department -> Course -> Subject */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-          {currentUserRole === 'dept_head' && currentUserDepartment ? (
+          {departmentScoped && currentUserDepartment ? (
             <select
               value={currentUserDepartment}
               disabled
@@ -612,7 +1038,7 @@ export default function ScheduleManagement({
             className="p-3 border rounded-lg"
           >
             <option value="">Select Subject</option>
-            {subjects
+            {termSubjects
               .filter(
                 (sub) =>
                   sub.departmentId === selectedDept &&
@@ -627,31 +1053,87 @@ export default function ScheduleManagement({
         </div>
         {/* Other schedule fields */}
         <div className="grid grid-cols-1 gap-4">
-          {/* Teacher & Room in two columns */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Section, Teacher & Room in three columns */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <select
-              value={newSchedule.teacherId}
-              onChange={(e) =>
-                setNewSchedule({ ...newSchedule, teacherId: e.target.value })
-              }
+              value={newSchedule.sectionId}
+              onChange={(e) => setNewSchedule({ ...newSchedule, sectionId: e.target.value })}
+              disabled={!newSchedule.subjectId}
               className="p-3 border rounded-lg"
             >
-              <option value="">Select Teacher</option>
-              {teachers.map((teacher) => (
-                <option key={teacher.id} value={teacher.id}>
-                  {teacher.firstName} {teacher.lastName}
+              <option value="">Select Section</option>
+              {getSubjectSections(newSchedule.subjectId).map((section) => (
+                <option key={section.id} value={section.id}>
+                  {getSectionLabel(section)} ({section.size} students)
                 </option>
               ))}
             </select>
-            <input
-              type="text"
-              value={newSchedule.room}
-              onChange={(e) =>
-                setNewSchedule({ ...newSchedule, room: e.target.value })
-              }
-              placeholder="Room"
-              className="p-3 border rounded-lg"
-            />
+            <div>
+              <select
+                value={newSchedule.teacherId}
+                onChange={(e) =>
+                  setNewSchedule({ ...newSchedule, teacherId: e.target.value })
+                }
+                className="w-full p-3 border rounded-lg"
+              >
+                <option value="">Select Teacher</option>
+                {getTeacherOptions(newSchedule.subjectId, overrideNewTeacher).map((teacher) => (
+                  <option key={teacher.id} value={teacher.id}>
+                    {teacher.firstName} {teacher.lastName}
+                  </option>
+                ))}
+              </select>
+              {newSchedule.subjectId && !overrideNewTeacher && getTeacherOptions(newSchedule.subjectId, false).length === 0 && (
+                <p className="mt-1 text-sm text-yellow-700">No teacher is qualified for this subject yet.</p>
+              )}
+              <label className="mt-1 flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={overrideNewTeacher}
+                  onChange={(e) => {
+                    setOverrideNewTeacher(e.target.checked);
+                    if (!e.target.checked && !isQualified(qualifications, newSchedule.teacherId, newSchedule.subjectId)) {
+                      setNewSchedule({ ...newSchedule, teacherId: '', qualificationOverride: '' });
+                    }
+                  }}
+                />
+                Show teachers not qualified for this subject
+              </label>
+              {overrideNewTeacher && (
+                <input
+                  type="text"
+                  value={newSchedule.qualificationOverride}
+                  onChange={(e) => setNewSchedule({ ...newSchedule, qualificationOverride: e.target.value })}
+                  placeholder="Reason for assigning an unqualified teacher"
+                  className="mt-1 w-full p-2 border rounded-lg"
+                />
+              )}
+              {getBookingLoadWarnings(newSchedule).map((warning) => (
+                <p key={warning} className="mt-1 text-sm text-yellow-700">
+                  {warning}
+                </p>
+              ))}
+              {getPreferenceHint(newSchedule) && (
+                <p className="mt-1 text-sm text-gray-500">{getPreferenceHint(newSchedule)}</p>
+              )}
+            </div>
+            <div>
+              <RoomSelect
+                rooms={rooms}
+                value={newSchedule.room}
+                onChange={(room) => setNewSchedule({ ...newSchedule, room })}
+              />
+              {getBookingCapacityWarning(newSchedule) && (
+                <p className={`mt-1 text-sm ${capacityIsHard ? 'text-red-600' : 'text-yellow-700'}`}>
+                  {getBookingCapacityWarning(newSchedule)}
+                </p>
+              )}
+              {getBookingRoomWarnings(newSchedule).map((warning) => (
+                <p key={warning} className="mt-1 text-sm text-yellow-700">
+                  {warning}
+                </p>
+              ))}
+            </div>
           </div>
           {/* Days multi-select takes full width */}
           <div>
@@ -691,6 +1173,31 @@ export default function ScheduleManagement({
               className="p-3 border rounded-lg"
             />
           </div>
+          <button
+            onClick={() => setShowSlotFinder(!showSlotFinder)}
+            className="w-full border border-primary text-primary px-6 py-3 rounded-lg hover:bg-primary/10 transition-colors"
+          >
+            {showSlotFinder ? 'Hide Available Slots' : 'Find Available Slots'}
+          </button>
+          {showSlotFinder && (
+            <FreeSlotFinder
+              schedules={viewSchedules}
+              teacherId={newSchedule.teacherId}
+              room={newSchedule.room}
+              sectionId={newSchedule.sectionId}
+              days={newSchedule.days}
+              departmentId={selectedDept}
+              defaultDuration={newScheduleDuration}
+              onPick={(slot, duration) =>
+                setNewSchedule({
+                  ...newSchedule,
+                  days: [slot.day],
+                  startTime: slot.startTime,
+                  endTime: minutesToTime(timeToMinutes(slot.startTime) + duration),
+                })
+              }
+            />
+          )}
           <button
             onClick={handleCreateSchedule}
             className="w-full bg-primary text-white px-6 py-3 rounded-lg hover:bg-accent-blue transition-colors"
@@ -700,6 +1207,65 @@ export default function ScheduleManagement({
         </div>
       </div>
 
+      {/* Timetable Generator */}
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-primary">Timetable Generator</h2>
+          <button
+            onClick={() => setShowGenerator(!showGenerator)}
+            className="border border-primary text-primary px-4 py-2 rounded-lg hover:bg-primary/10 transition-colors"
+          >
+            {showGenerator ? 'Hide' : 'Show'}
+          </button>
+        </div>
+        {showGenerator && (
+          <div className="mt-4">
+            <TimetableGenerator
+              subjects={termSubjects}
+              teachers={teachers}
+              schedules={viewSchedules}
+              draftId={canAddToView ? activeDraftId : ''}
+              termId={termId}
+              departmentId={selectedDept}
+              getSubjectName={getSubjectName}
+              getTeacherName={getTeacherName}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Term Rollover (creates drafts, so only for roles that manage them) */}
+      {!departmentScoped && (
+        <div className="bg-white rounded-xl p-6 shadow-lg">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-primary">Roll Over From Another Term</h2>
+            <button
+              onClick={() => setShowRollover(!showRollover)}
+              className="border border-primary text-primary px-4 py-2 rounded-lg hover:bg-primary/10 transition-colors"
+            >
+              {showRollover ? 'Hide' : 'Show'}
+            </button>
+          </div>
+          {showRollover && (
+            <div className="mt-4">
+              <TermRollover
+                terms={terms}
+                termId={termId}
+                currentTermId={currentTermId}
+                schedules={schedules}
+                drafts={drafts}
+                subjects={subjects}
+                teachers={teachers}
+                currentUserId={currentUserId ?? ''}
+                getSubjectName={getSubjectName}
+                getTeacherName={getTeacherName}
+                onCreated={setActiveDraftId}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Calendar View using FullCalendar */}
       <div className="bg-white rounded-xl p-6 shadow-lg">
         <h2 className="text-2xl font-bold text-primary mb-4">Weekly Schedule</h2>
@@ -717,11 +1283,194 @@ export default function ScheduleManagement({
         />
       </div>
 
+      {/* Per-section weekly timetable: everything one block of students attends */}
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h2 className="text-2xl font-bold text-primary">Section Timetable</h2>
+          <select
+            value={timetableSectionId}
+            onChange={(e) => setTimetableSectionId(e.target.value)}
+            className="p-2 border rounded"
+          >
+            <option value="">Select Section</option>
+            {visibleSections.map((section) => (
+              <option key={section.id} value={section.id}>
+                {getSectionLabel(section)}
+              </option>
+            ))}
+          </select>
+        </div>
+        {timetableSectionId ? (
+          <FullCalendar
+            plugins={[timeGridPlugin, interactionPlugin]}
+            initialView="timeGridWeek"
+            headerToolbar={false}
+            dayHeaderFormat={{ weekday: 'long' }}
+            events={sectionEvents}
+            eventClick={handleSelectEvent}
+            height={500}
+          />
+        ) : (
+          <p className="text-gray-600">Select a section to see its weekly classes.</p>
+        )}
+      </div>
+
+      {/* Over-capacity report */}
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-primary">
+            Over-Capacity Assignments{' '}
+            <span className={overCapacity.length > 0 ? 'text-red-600' : 'text-green-600'}>({overCapacity.length})</span>
+          </h2>
+          <button
+            onClick={() => setShowCapacityReport(!showCapacityReport)}
+            className="border border-primary text-primary px-4 py-2 rounded-lg hover:bg-primary/10 transition-colors"
+          >
+            {showCapacityReport ? 'Hide' : 'Show'}
+          </button>
+        </div>
+        {showCapacityReport && (
+          <div className="mt-4">
+            <DataTable
+              columns={[
+                { name: 'Subject', selector: (row: OverCapacityRow) => getSubjectName(row.sch.subjectId), sortable: true },
+                { name: 'Section', selector: (row: OverCapacityRow) => getSectionLabel(row.section), sortable: true },
+                { name: 'Students', selector: (row: OverCapacityRow) => row.section.size, sortable: true },
+                { name: 'Room', selector: (row: OverCapacityRow) => row.room.code, sortable: true },
+                { name: 'Capacity', selector: (row: OverCapacityRow) => row.room.capacity, sortable: true },
+                {
+                  name: 'Over By',
+                  selector: (row: OverCapacityRow) => row.section.size - row.room.capacity,
+                  sortable: true,
+                },
+                {
+                  name: 'When',
+                  selector: (row: OverCapacityRow) => `${row.sch.days.join(', ')} ${row.sch.startTime}-${row.sch.endTime}`,
+                },
+                {
+                  name: 'Action',
+                  cell: (row: OverCapacityRow) => (
+                    <button onClick={() => openEditModal(row.sch)} className="text-primary hover:underline">
+                      Edit
+                    </button>
+                  ),
+                },
+              ]}
+              data={overCapacity}
+              pagination
+              responsive
+              highlightOnHover
+              noDataComponent="Every section fits its room."
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Teaching load per teacher */}
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-primary">Teaching Load</h2>
+          <button
+            onClick={() => setShowLoadSummary(!showLoadSummary)}
+            className="border border-primary text-primary px-4 py-2 rounded-lg hover:bg-primary/10 transition-colors"
+          >
+            {showLoadSummary ? 'Hide' : 'Show'}
+          </button>
+        </div>
+        {showLoadSummary && (
+          <div className="mt-4">
+            <TeachingLoadSummary
+              schedules={viewSchedules}
+              teachers={teachers}
+              departments={departments}
+              getUnits={getUnits}
+              lockedDepartment={departmentScoped ? currentUserDepartment : undefined}
+              canEditLimits={!departmentScoped}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Teacher availability, kept by the teachers themselves or filled in here */}
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <h2 className="text-2xl font-bold text-primary mb-4">Teacher Availability</h2>
+        <select
+          value={availabilityTeacherId}
+          onChange={(e) => setAvailabilityTeacherId(e.target.value)}
+          className="p-3 border rounded-lg mb-4"
+        >
+          <option value="">Select Teacher</option>
+          {teachers
+            .filter((t) => !departmentScoped || t.departmentId === currentUserDepartment)
+            .map((teacher) => (
+              <option key={teacher.id} value={teacher.id}>
+                {teacher.firstName} {teacher.lastName}
+              </option>
+            ))}
+        </select>
+        {availabilityTeacherId && !availabilityLoading && (
+          <AvailabilityEditor
+            key={availabilityTeacherId}
+            teacherId={availabilityTeacherId}
+            departmentId={teachers.find((t) => t.id === availabilityTeacherId)?.departmentId ?? ''}
+            availability={getAvailability(availabilityTeacherId)}
+            currentUserId={currentUserId ?? ''}
+          />
+        )}
+      </div>
+
+      {/* Change Requests Section */}
+      {changeRequests.length > 0 && (
+        <div className="bg-white rounded-xl p-6 shadow-lg">
+          <h2 className="text-2xl font-bold text-primary mb-4">Change Requests</h2>
+          <DataTable
+            columns={[
+              {
+                name: 'Subject',
+                selector: (row: ScheduleChangeRequest) =>
+                  getSubjectName(schedules.find((s) => s.id === row.scheduleId)?.subjectId ?? ''),
+                sortable: true,
+              },
+              {
+                name: 'Teacher',
+                selector: (row: ScheduleChangeRequest) => getTeacherName(row.teacherId),
+                sortable: true,
+              },
+              {
+                name: 'Type',
+                selector: (row: ScheduleChangeRequest) => (row.type === 'remove' ? 'Removal' : 'Change'),
+                sortable: true,
+              },
+              {
+                name: 'Submitted',
+                selector: (row: ScheduleChangeRequest) => new Date(row.createdAt).toLocaleString(),
+                sortable: true,
+              },
+              {
+                name: 'Action',
+                cell: (row: ScheduleChangeRequest) => (
+                  <button
+                    onClick={() => handleReviewChangeRequest(row)}
+                    className="bg-primary hover:bg-accent-blue text-white px-3 py-1 rounded-lg transition-colors"
+                  >
+                    Review
+                  </button>
+                ),
+              },
+            ]}
+            data={changeRequests}
+            pagination
+            responsive
+            highlightOnHover
+          />
+        </div>
+      )}
+
       {/* Data Table Section */}
       <div className="bg-white rounded-xl p-6 shadow-lg">
         <div className="mb-4 flex flex-wrap items-center gap-4">
           <h3 className="text-xl font-semibold text-primary">Filter Schedules:</h3>
-          {currentUserRole === 'dept_head' && currentUserDepartment ? (
+          {departmentScoped && currentUserDepartment ? (
             <select value={currentUserDepartment} disabled className="p-2 border rounded">
               <option value={currentUserDepartment}>
                 {currentUserDepartment === 'non_board_courses'
@@ -754,6 +1503,30 @@ export default function ScheduleManagement({
               </option>
             ))}
           </select>
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value)}
+            className="p-2 border rounded"
+          >
+            <option value="">All Statuses</option>
+            {(Object.keys(SCHEDULE_STATUS_LABELS) as ScheduleStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {SCHEDULE_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filterSection}
+            onChange={(e) => setFilterSection(e.target.value)}
+            className="p-2 border rounded"
+          >
+            <option value="">All Sections</option>
+            {visibleSections.map((section) => (
+              <option key={section.id} value={section.id}>
+                {getSectionLabel(section)}
+              </option>
+            ))}
+          </select>
         </div>
         <DataTable
           title="Schedules"
@@ -806,24 +1579,74 @@ export default function ScheduleManagement({
                     ))}
                 </select>
                 <select
-                  value={editSchedule.teacherId}
-                  onChange={(e) => handleEditChange('teacherId', e.target.value)}
+                  value={editSchedule.sectionId ?? ''}
+                  onChange={(e) => handleEditChange('sectionId', e.target.value)}
                   className="p-3 border rounded-lg"
                 >
-                  <option value="">Select Teacher</option>
-                  {teachers.map((teacher) => (
-                    <option key={teacher.id} value={teacher.id}>
-                      {teacher.firstName} {teacher.lastName}
+                  <option value="">Select Section</option>
+                  {getSubjectSections(editSchedule.subjectId).map((section) => (
+                    <option key={section.id} value={section.id}>
+                      {getSectionLabel(section)} ({section.size} students)
                     </option>
                   ))}
                 </select>
-                <input
-                  type="text"
-                  value={editSchedule.room}
-                  onChange={(e) => handleEditChange('room', e.target.value)}
-                  placeholder="Room"
-                  className="p-3 border rounded-lg"
-                />
+                <div>
+                  <select
+                    value={editSchedule.teacherId}
+                    onChange={(e) => handleEditChange('teacherId', e.target.value)}
+                    className="w-full p-3 border rounded-lg"
+                  >
+                    <option value="">Select Teacher</option>
+                    {getTeacherOptions(editSchedule.subjectId, overrideEditTeacher).map((teacher) => (
+                      <option key={teacher.id} value={teacher.id}>
+                        {teacher.firstName} {teacher.lastName}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="mt-1 flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={overrideEditTeacher}
+                      onChange={(e) => {
+                        setOverrideEditTeacher(e.target.checked);
+                        if (!e.target.checked && !isQualified(qualifications, editSchedule.teacherId, editSchedule.subjectId)) {
+                          setEditSchedule({ ...editSchedule, teacherId: '', qualificationOverride: '' });
+                        }
+                      }}
+                    />
+                    Show teachers not qualified for this subject
+                  </label>
+                  {overrideEditTeacher && (
+                    <input
+                      type="text"
+                      value={editSchedule.qualificationOverride ?? ''}
+                      onChange={(e) => handleEditChange('qualificationOverride', e.target.value)}
+                      placeholder="Reason for assigning an unqualified teacher"
+                      className="mt-1 w-full p-2 border rounded-lg"
+                    />
+                  )}
+                  {getBookingLoadWarnings(editSchedule, editSchedule.id).map((warning) => (
+                    <p key={warning} className="mt-1 text-sm text-yellow-700">
+                      {warning}
+                    </p>
+                  ))}
+                  {getPreferenceHint(editSchedule) && (
+                    <p className="mt-1 text-sm text-gray-500">{getPreferenceHint(editSchedule)}</p>
+                  )}
+                </div>
+                <div>
+                  <RoomSelect rooms={rooms} value={editSchedule.room} onChange={(room) => handleEditChange('room', room)} />
+                  {getBookingCapacityWarning(editSchedule) && (
+                    <p className={`mt-1 text-sm ${capacityIsHard ? 'text-red-600' : 'text-yellow-700'}`}>
+                      {getBookingCapacityWarning(editSchedule)}
+                    </p>
+                  )}
+                  {getBookingRoomWarnings(editSchedule).map((warning) => (
+                    <p key={warning} className="mt-1 text-sm text-yellow-700">
+                      {warning}
+                    </p>
+                  ))}
+                </div>
                 <Select
                   isMulti
                   options={dayOptions}
@@ -874,6 +1697,18 @@ export default function ScheduleManagement({
           </motion.div>
         )}
       </AnimatePresence>
+
+      <ConflictPanel
+        conflicts={conflictReport?.conflicts ?? []}
+        getSubjectName={getSubjectName}
+        getTeacherName={getTeacherName}
+        onJumpTo={(sch) => {
+          setConflictReport(null);
+          openEditModal(sch);
+        }}
+        onPickNextFreeSlot={handlePickNextFreeSlot}
+        onClose={() => setConflictReport(null)}
+      />
     </motion.div>
   );
 }
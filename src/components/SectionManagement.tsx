@@ -0,0 +1,273 @@
+'use client';
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import DataTable from 'react-data-table-component';
+import { db } from '@/utils/firebase';
+import { addDoc, collection, deleteDoc, doc, getDocs, limit, query, updateDoc, where } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import { isDepartmentScoped, Role } from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useSections } from '@/hooks/useSections';
+import { useDepartmentsAndCourses } from '@/hooks/useDepartmentsAndCourses';
+import { getSectionLabel, Section } from '@/utils/sections';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faEdit, faTrash } from '@fortawesome/free-solid-svg-icons';
+
+const EMPTY_FORM = {
+  departmentId: '',
+  courseId: '',
+  yearLevel: '',
+  block: '',
+  size: '',
+};
+
+export default function SectionManagement({
+  currentUserRole,
+  currentUserDepartment,
+}: {
+  currentUserRole: Role;
+  currentUserDepartment?: string;
+}) {
+  const { permissions } = usePermissions();
+  const { sections, loading } = useSections();
+  // Dept heads (and other department-scoped roles) only see and manage their own department's sections
+  const departmentScoped = isDepartmentScoped(permissions, currentUserRole);
+  const { departments, courses: allCourses } = useDepartmentsAndCourses();
+  const [form, setForm] = useState(EMPTY_FORM);
+  // Section being edited in the form, if any
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [filterCourse, setFilterCourse] = useState('');
+
+  useEffect(() => {
+    if (departmentScoped && currentUserDepartment) {
+      setForm((prev) => ({ ...prev, departmentId: currentUserDepartment }));
+    }
+  }, [departmentScoped, currentUserDepartment]);
+
+  if (!permissions[currentUserRole]?.canManageSubjects) {
+    return (
+      <div className="p-6 bg-white rounded-xl shadow-lg">
+        <h3 className="text-red-500">You don't have permission to manage sections</h3>
+      </div>
+    );
+  }
+
+  const resetForm = () => {
+    setForm({ ...EMPTY_FORM, departmentId: departmentScoped ? currentUserDepartment ?? '' : '' });
+    setEditingId(null);
+  };
+
+  const isSectionInUse = async (sectionId: string) =>
+    !(await getDocs(query(collection(db, 'schedules'), where('sectionId', '==', sectionId), limit(1)))).empty;
+
+  const handleSave = async () => {
+    const yearLevel = form.yearLevel.trim();
+    const block = form.block.trim().toUpperCase();
+    const size = Number(form.size);
+    const course = allCourses.find((c) => c.id === form.courseId && c.departmentId === form.departmentId);
+    if (!course || !yearLevel || !block || !size || size < 1) {
+      Swal.fire('Warning', 'Course, year level, block and a size of at least 1 are required', 'warning');
+      return;
+    }
+    const duplicate = sections.some(
+      (s) => s.courseId === course.id && s.yearLevel === yearLevel && s.block === block && s.id !== editingId
+    );
+    if (duplicate) {
+      Swal.fire('Warning', `${getSectionLabel({ courseCode: course.code, yearLevel, block })} already exists`, 'warning');
+      return;
+    }
+    const sectionData = {
+      departmentId: form.departmentId,
+      courseId: course.id,
+      courseCode: course.code,
+      yearLevel,
+      block,
+      size,
+    };
+    try {
+      if (editingId) {
+        await updateDoc(doc(db, 'sections', editingId), sectionData);
+        Swal.fire('Success', 'Section updated successfully', 'success');
+      } else {
+        const section: Section = { ...sectionData, createdAt: new Date().toISOString() };
+        await addDoc(collection(db, 'sections'), section);
+        Swal.fire('Success', 'Section created successfully', 'success');
+      }
+      resetForm();
+    } catch (error) {
+      Swal.fire('Error', 'Failed to save section', 'error');
+    }
+  };
+
+  const handleEdit = (section: Section) => {
+    setEditingId(section.id!);
+    setForm({
+      departmentId: section.departmentId,
+      courseId: section.courseId,
+      yearLevel: section.yearLevel,
+      block: section.block,
+      size: String(section.size),
+    });
+  };
+
+  const handleDelete = async (section: Section) => {
+    try {
+      if (await isSectionInUse(section.id!)) {
+        Swal.fire('Cannot delete', `${getSectionLabel(section)} has schedule entries. Remove them first.`, 'warning');
+        return;
+      }
+      const confirmResult = await Swal.fire({
+        title: 'Are you sure?',
+        text: `This will delete section ${getSectionLabel(section)}.`,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: 'Yes, delete it!',
+      });
+      if (!confirmResult.isConfirmed) return;
+      await deleteDoc(doc(db, 'sections', section.id!));
+      Swal.fire('Deleted!', 'Section deleted.', 'success');
+    } catch (error) {
+      Swal.fire('Error', 'Failed to delete section', 'error');
+    }
+  };
+
+  const formCourses = allCourses.filter((c) => c.departmentId === form.departmentId);
+  const visibleSections = sections.filter(
+    (s) => (!departmentScoped || s.departmentId === currentUserDepartment) && (!filterCourse || s.courseId === filterCourse)
+  );
+  const filterCourses = allCourses.filter((c) => !departmentScoped || c.departmentId === currentUserDepartment);
+
+  const columns = [
+    { name: 'Section', selector: (row: Section) => getSectionLabel(row), sortable: true },
+    {
+      name: 'Course',
+      selector: (row: Section) => allCourses.find((c) => c.id === row.courseId)?.name ?? row.courseCode,
+      sortable: true,
+    },
+    { name: 'Year Level', selector: (row: Section) => row.yearLevel, sortable: true },
+    { name: 'Block', selector: (row: Section) => row.block, sortable: true },
+    { name: 'Students', selector: (row: Section) => row.size, sortable: true },
+    {
+      name: 'Actions',
+      cell: (row: Section) => (
+        <div className="flex gap-3">
+          <button onClick={() => handleEdit(row)} className="text-primary" title="Edit">
+            <FontAwesomeIcon icon={faEdit} />
+          </button>
+          <button onClick={() => handleDelete(row)} className="text-red-500" title="Delete">
+            <FontAwesomeIcon icon={faTrash} />
+          </button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-8">
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <h2 className="text-2xl font-bold text-primary mb-4">{editingId ? 'Edit Section' : 'Add Section'}</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {departmentScoped && currentUserDepartment ? (
+            <select value={currentUserDepartment} disabled className="p-3 border rounded-lg">
+              <option value={currentUserDepartment}>
+                {departments.find((d) => d.id === currentUserDepartment)?.name ?? currentUserDepartment}
+              </option>
+            </select>
+          ) : (
+            <select
+              value={form.departmentId}
+              onChange={(e) => setForm({ ...form, departmentId: e.target.value, courseId: '' })}
+              className="p-3 border rounded-lg"
+            >
+              <option value="">Select Department</option>
+              {departments.map((dept) => (
+                <option key={dept.id} value={dept.id}>
+                  {dept.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={form.courseId}
+            onChange={(e) => setForm({ ...form, courseId: e.target.value })}
+            className="p-3 border rounded-lg"
+            disabled={!form.departmentId}
+          >
+            <option value="">Select Course</option>
+            {formCourses.map((course) => (
+              <option key={course.id} value={course.id}>
+                {course.name} ({course.code})
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={form.yearLevel}
+            onChange={(e) => setForm({ ...form, yearLevel: e.target.value })}
+            placeholder="Year Level (e.g. 2)"
+            className="p-3 border rounded-lg"
+          />
+          <input
+            type="text"
+            value={form.block}
+            onChange={(e) => setForm({ ...form, block: e.target.value })}
+            placeholder="Block (e.g. A)"
+            className="p-3 border rounded-lg"
+          />
+          <input
+            type="number"
+            min={1}
+            value={form.size}
+            onChange={(e) => setForm({ ...form, size: e.target.value })}
+            placeholder="Number of students"
+            className="p-3 border rounded-lg"
+          />
+        </div>
+        <div className="flex gap-4 mt-4">
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-primary text-white px-6 py-3 rounded-lg hover:bg-accent-blue transition-colors"
+          >
+            {editingId ? 'Save Section' : 'Add Section'}
+          </button>
+          {editingId && (
+            <button onClick={resetForm} className="bg-gray-300 hover:bg-gray-400 px-6 py-3 rounded-lg transition-colors">
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <div className="mb-4 flex flex-wrap items-center gap-4">
+          <h3 className="text-xl font-semibold text-primary">Filter Sections:</h3>
+          <select value={filterCourse} onChange={(e) => setFilterCourse(e.target.value)} className="p-2 border rounded">
+            <option value="">All Courses</option>
+            {filterCourses.map((course) => (
+              <option key={course.id} value={course.id}>
+                {course.name} ({course.code})
+              </option>
+            ))}
+          </select>
+        </div>
+        <DataTable
+          title="Sections"
+          columns={columns}
+          data={visibleSections}
+          progressPending={loading}
+          pagination
+          responsive
+          highlightOnHover
+          customStyles={{
+            headCells: {
+              style: {
+                fontWeight: 'bold',
+                backgroundColor: '#f3f4f6',
+              },
+            },
+          }}
+        />
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { db } from '@/utils/firebase';
+import { doc, onSnapshot, setDoc } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import { getRoleLabel, Role } from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faShieldHalved, faQrcode } from '@fortawesome/free-solid-svg-icons';
+import LoadingSpinner from './LoadingSpinner';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+interface EnrollmentData {
+  secret: string;
+  qrCode: string;
+}
+
+export default function SecuritySettings({
+  currentUserRole,
+  setupRequired,
+  onEnrolled,
+}: {
+  currentUserRole: Role;
+  setupRequired: boolean;
+  onEnrolled: () => void;
+}) {
+  const { permissions } = usePermissions();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<EnrollmentData | null>(null);
+  const [code, setCode] = useState('');
+  // Roles for which 2FA is mandatory (admin-only policy)
+  const [requiredRoles, setRequiredRoles] = useState<Role[]>([]);
+
+  const fetchStatus = async () => {
+    try {
+      const res = await fetch('/api/auth/2fa');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setStatus(data);
+    } catch (error: any) {
+      Swal.fire('Error', error.message || 'Failed to load security settings', 'error');
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  // Real-time listener for the 2FA policy (admins only)
+  useEffect(() => {
+    if (currentUserRole !== 'admin') return;
+    const unsubscribe = onSnapshot(doc(db, 'settings', 'security'), (snapshot) => {
+      setRequiredRoles((snapshot.data()?.twoFactorRequiredRoles as Role[] | undefined) ?? []);
+    });
+    return () => unsubscribe();
+  }, [currentUserRole]);
+
+  const postJson = async (url: string, body: object = {}) => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      const data = await postJson('/api/auth/2fa/setup');
+      setEnrollment({ secret: data.secret, qrCode: data.qrCode });
+      setCode('');
+    } catch (error: any) {
+      Swal.fire('Error', error.message || 'Failed to start two-factor setup', 'error');
+    }
+  };
+
+  const handleConfirmSetup = async () => {
+    if (!code) {
+      Swal.fire('Warning', 'Please enter the 6-digit code from your authenticator app', 'warning');
+      return;
+    }
+    try {
+      const { backupCodes } = await postJson('/api/auth/2fa/enable', { code });
+      setEnrollment(null);
+      setCode('');
+      await Swal.fire({
+        icon: 'success',
+        title: 'Two-Factor Enabled',
+        html: `<p class="mb-2">Store these backup codes somewhere safe. Each can be used once if you lose your device.</p>
+          <pre class="bg-gray-100 p-3 rounded text-left">${backupCodes.join('\n')}</pre>`,
+      });
+      onEnrolled();
+      fetchStatus();
+    } catch (error: any) {
+      Swal.fire('Error', error.message || 'Failed to enable two-factor authentication', 'error');
+    }
+  };
+
+  const handleDisable = async () => {
+    const { value: disableCode, isConfirmed } = await Swal.fire({
+      title: 'Disable Two-Factor?',
+      input: 'text',
+      inputLabel: 'Enter an authentication or backup code to confirm',
+      showCancelButton: true,
+      confirmButtonText: 'Disable',
+      inputValidator: (value) => (!value ? 'Please enter a code' : null),
+    });
+    if (!isConfirmed) return;
+    try {
+      await postJson('/api/auth/2fa/disable', { code: disableCode });
+      Swal.fire('Disabled', 'Two-factor authentication has been turned off.', 'success');
+      fetchStatus();
+    } catch (error: any) {
+      Swal.fire('Error', error.message || 'Failed to disable two-factor authentication', 'error');
+    }
+  };
+
+  const handleToggleRequiredRole = async (role: Role) => {
+    const updated = requiredRoles.includes(role)
+      ? requiredRoles.filter((r) => r !== role)
+      : [...requiredRoles, role];
+    try {
+      await setDoc(doc(db, 'settings', 'security'), { twoFactorRequiredRoles: updated }, { merge: true });
+    } catch (error) {
+      Swal.fire('Error', 'Failed to update the 2FA policy', 'error');
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="flex items-center justify-center h-full py-20">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      {setupRequired && (
+        <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 p-4 rounded-lg">
+          Two-factor authentication is required for your role. Please enable it to continue using the dashboard.
+        </div>
+      )}
+
+      {/* Two-Factor Enrollment */}
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <h2 className="text-2xl font-bold text-primary mb-4">
+          <FontAwesomeIcon icon={faShieldHalved} className="mr-2" />
+          Two-Factor Authentication
+        </h2>
+        {status.enabled ? (
+          <div className="space-y-4">
+            <p className="text-green-700 font-semibold">Two-factor authentication is enabled.</p>
+            <p className="text-gray-600 text-sm">Backup codes remaining: {status.backupCodesRemaining}</p>
+            {!status.required && (
+              <button
+                onClick={handleDisable}
+                className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-colors"
+              >
+                Disable Two-Factor
+              </button>
+            )}
+          </div>
+        ) : enrollment ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
+            <div className="text-center">
+              <img src={enrollment.qrCode} alt="2FA QR code" className="mx-auto w-48 h-48" />
+              <p className="mt-2 text-xs text-gray-500 break-all">
+                Can't scan? Enter this key manually: <span className="font-mono">{enrollment.secret}</span>
+              </p>
+            </div>
+            <div className="space-y-4">
+              <p className="text-gray-700">
+                Scan the QR code with an authenticator app (Google Authenticator, Authy, Microsoft Authenticator), then
+                enter the 6-digit code it shows.
+              </p>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                className="w-full p-3 border rounded-lg tracking-widest"
+              />
+              <div className="flex gap-4">
+                <button
+                  onClick={() => setEnrollment(null)}
+                  className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirmSetup}
+                  className="bg-primary hover:bg-accent-blue text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  Verify &amp; Enable
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              Protect your account with a one-time code from an authenticator app in addition to your password.
+            </p>
+            <button
+              onClick={handleStartSetup}
+              className="bg-primary hover:bg-accent-blue text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <FontAwesomeIcon icon={faQrcode} className="mr-2" /> Set Up Two-Factor
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* 2FA Policy (admin only) */}
+      {currentUserRole === 'admin' && !setupRequired && (
+        <div className="bg-white rounded-xl p-6 shadow-lg">
+          <h3 className="text-xl font-semibold text-primary mb-2">Two-Factor Policy</h3>
+          <p className="text-gray-600 text-sm mb-4">
+            Users in the selected roles must enroll in two-factor authentication at their next sign-in.
+          </p>
+          <div className="flex flex-wrap gap-6">
+            {Object.keys(permissions).map((role) => (
+              <label key={role} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={requiredRoles.includes(role)}
+                  onChange={() => handleToggleRequiredRole(role)}
+                  className="w-4 h-4"
+                />
+                {getRoleLabel(permissions, role)}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
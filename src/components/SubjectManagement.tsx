@@ -2,6 +2,7 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import DataTable from 'react-data-table-component';
+import Select from 'react-select';
 import * as XLSX from 'xlsx';
 import { db } from '@/utils/firebase';
 import {
@@ -16,7 +17,11 @@ import {
   where,
 } from 'firebase/firestore';
 import Swal from 'sweetalert2';
-import { Role, ROLES } from '@/utils/roles';
+import { isDepartmentScoped, Role } from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useAcademicTerms } from '@/hooks/useAcademicTerms';
+import { getTermLabel } from '@/utils/academicTerms';
+import { ROOM_TYPE_LABELS, RoomType } from '@/utils/rooms';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { faEdit, faTrash, faFileExport, faFileImport } from '@fortawesome/free-solid-svg-icons';
 
@@ -30,15 +35,24 @@ interface Subject {
   departmentId: string;
   courseId: string;
   createdAt: string;
+  termIds?: string[]; // Academic terms the subject is offered in; empty means every term
+  roomType?: RoomType | ''; // Kind of room the subject needs; '' means any room
 }
 
 export default function SubjectManagement({
   currentUserRole,
   currentUserDepartment,
+  termId = '',
 }: {
   currentUserRole: Role;
   currentUserDepartment?: string;
+  termId?: string; // New subjects are offered in the selected term by default
 }) {
+  const { permissions } = usePermissions();
+  const { terms } = useAcademicTerms();
+  const termOptions = terms.map((t) => ({ value: t.id!, label: getTermLabel(t) }));
+  // Dept heads (and other department-scoped roles) get a locked department in the forms
+  const departmentScoped = isDepartmentScoped(permissions, currentUserRole);
   // States for subject management
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [departments, setDepartments] = useState<any[]>([]);
@@ -55,6 +69,8 @@ export default function SubjectManagement({
     semester: '',
     departmentId: '',
     courseId: '',
+    termIds: termId ? [termId] : [],
+    roomType: '' as RoomType | '',
   });
   const [loading, setLoading] = useState(true);
   const [editSubject, setEditSubject] = useState<Subject | null>(null);
@@ -121,7 +137,7 @@ export default function SubjectManagement({
 
   // If the logged-in user is a department head, lock the department selection in the create form.
   useEffect(() => {
-    if (currentUserRole === 'dept_head' && currentUserDepartment) {
+    if (departmentScoped && currentUserDepartment) {
       setSelectedDepartment(currentUserDepartment);
       setNewSubject(prev => ({ ...prev, departmentId: currentUserDepartment }));
       const fetchCourses = async () => {
@@ -134,7 +150,7 @@ export default function SubjectManagement({
       };
       fetchCourses();
     }
-  }, [currentUserRole, currentUserDepartment]);
+  }, [departmentScoped, currentUserDepartment]);
 
   // Real-time listener for subjects with a 500ms delay for smoother updates
   useEffect(() => {
@@ -186,9 +202,11 @@ export default function SubjectManagement({
         semester: '',
         departmentId: '',
         courseId: '',
+        termIds: termId ? [termId] : [],
+        roomType: '',
       });
       // If not dept head, reset department selection; otherwise it remains locked.
-      if (currentUserRole !== 'dept_head') {
+      if (!departmentScoped) {
         setSelectedDepartment('');
         setCourses([]);
       }
@@ -226,7 +244,7 @@ export default function SubjectManagement({
   };
 
   // Handle changes in the edit form
-  const handleEditChange = (field: string, value: string) => {
+  const handleEditChange = (field: string, value: string | string[]) => {
     if (editSubject) {
       setEditSubject({ ...editSubject, [field]: value });
     }
@@ -235,7 +253,7 @@ export default function SubjectManagement({
   // Update the subject document with new values
   const handleUpdateSubject = async () => {
     if (!editSubject || !editSubject.id) return;
-    const { subjectCode, subjectName, yearLevel, units, semester, departmentId, courseId } = editSubject;
+    const { subjectCode, subjectName, yearLevel, units, semester, departmentId, courseId, termIds, roomType } = editSubject;
     if (!subjectCode || !subjectName || !yearLevel || !units || !semester || !departmentId || !courseId) {
       Swal.fire('Warning', 'Please fill all required fields', 'warning');
       return;
@@ -250,6 +268,8 @@ export default function SubjectManagement({
         semester,
         departmentId,
         courseId,
+        termIds: termIds ?? [],
+        roomType: roomType ?? '',
       });
       Swal.fire('Success', 'Subject updated successfully', 'success');
       setIsEditModalOpen(false);
@@ -308,6 +328,13 @@ export default function SubjectManagement({
       selector: (row: Subject) => (row.courseId ? getCourseName(row.courseId) : 'N/A'),
       sortable: true,
     },
+    {
+      name: 'Offered In',
+      selector: (row: Subject) =>
+        row.termIds?.length
+          ? termOptions.filter((o) => row.termIds!.includes(o.value)).map((o) => o.label).join(', ')
+          : 'Every term',
+    },
   ];
 
   // Custom subheader (toolbar) for DataTable
@@ -433,7 +460,7 @@ export default function SubjectManagement({
     input.click();
   };
 
-  if (!ROLES[currentUserRole]?.canManageSubjects) {
+  if (!permissions[currentUserRole]?.canManageSubjects) {
     return (
       <div className="p-6 bg-white rounded-xl shadow-lg">
         <h3 className="text-red-500">You don't have permission to manage subjects</h3>
@@ -482,8 +509,31 @@ export default function SubjectManagement({
             placeholder="Semester"
             className="w-full p-3 border rounded-lg"
           />
+          <Select
+            isMulti
+            options={termOptions}
+            value={termOptions.filter((o) => newSubject.termIds.includes(o.value))}
+            onChange={(selected: any) =>
+              setNewSubject({ ...newSubject, termIds: selected.map((o: { value: string }) => o.value) })
+            }
+            className="basic-multi-select"
+            classNamePrefix="select"
+            placeholder="Offered in terms (every term if empty)"
+          />
+          <select
+            value={newSubject.roomType}
+            onChange={(e) => setNewSubject({ ...newSubject, roomType: e.target.value as RoomType | '' })}
+            className="w-full p-3 border rounded-lg"
+          >
+            <option value="">Room type needed: Any</option>
+            {(Object.keys(ROOM_TYPE_LABELS) as RoomType[]).map((type) => (
+              <option key={type} value={type}>
+                Room type needed: {ROOM_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
           {/* Department Dropdown */}
-          {currentUserRole === 'dept_head' && currentUserDepartment ? (
+          {departmentScoped && currentUserDepartment ? (
             <select value={currentUserDepartment} disabled className="w-full p-3 border rounded-lg">
               <option value={currentUserDepartment}>
                 {currentUserDepartment === 'non_board_courses' ? 'Non Board Courses' : 'Board Courses'}
@@ -527,7 +577,7 @@ export default function SubjectManagement({
       {/* Filter Section */}
       <div className="bg-white rounded-xl p-6 shadow-lg flex flex-wrap gap-4 items-center">
         <h3 className="text-xl font-semibold text-primary">Filter Subjects:</h3>
-        {currentUserRole === 'dept_head' && currentUserDepartment ? (
+        {departmentScoped && currentUserDepartment ? (
           <select value={currentUserDepartment} disabled className="p-2 border rounded">
             <option value={currentUserDepartment}>
               {currentUserDepartment === 'non_board_courses' ? 'Non Board Courses' : 'Board Courses'}
@@ -632,7 +682,30 @@ export default function SubjectManagement({
                   placeholder="Semester"
                   className="w-full p-3 border rounded-lg"
                 />
-                {currentUserRole === 'dept_head' && currentUserDepartment ? (
+                <Select
+                  isMulti
+                  options={termOptions}
+                  value={termOptions.filter((o) => editSubject.termIds?.includes(o.value))}
+                  onChange={(selected: any) =>
+                    handleEditChange('termIds', selected.map((o: { value: string }) => o.value))
+                  }
+                  className="basic-multi-select"
+                  classNamePrefix="select"
+                  placeholder="Offered in terms (every term if empty)"
+                />
+                <select
+                  value={editSubject.roomType ?? ''}
+                  onChange={(e) => handleEditChange('roomType', e.target.value)}
+                  className="w-full p-3 border rounded-lg"
+                >
+                  <option value="">Room type needed: Any</option>
+                  {(Object.keys(ROOM_TYPE_LABELS) as RoomType[]).map((type) => (
+                    <option key={type} value={type}>
+                      Room type needed: {ROOM_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+                {departmentScoped && currentUserDepartment ? (
                   <select value={currentUserDepartment} disabled className="w-full p-3 border rounded-lg">
                     <option value={currentUserDepartment}>
                       {currentUserDepartment === 'non_board_courses' ? 'Non Board Courses' : 'Board Courses'}
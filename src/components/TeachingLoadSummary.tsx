@@ -0,0 +1,154 @@
+'use client';
+import { useState } from 'react';
+import DataTable from 'react-data-table-component';
+import { db } from '@/utils/firebase';
+import { doc, setDoc } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import { useSchedulingSettings } from '@/hooks/useSchedulingSettings';
+import { EMPLOYMENT_TYPE_LABELS, EmploymentType, getEmploymentType } from '@/utils/schedulingSettings';
+import { Teacher } from '@/utils/teachers';
+import { calculateTeacherLoads, getOverloadReasons, LoadEntry, LoadLimit, TeacherLoad } from '@/lib/scheduling/load';
+
+interface LoadRow extends TeacherLoad {
+  name: string;
+  employmentType: EmploymentType;
+  limit: LoadLimit;
+  overload: string[];
+}
+
+// Weekly hours and units per teacher for one timetable version, with the maximum loads
+export default function TeachingLoadSummary({
+  schedules,
+  teachers,
+  departments,
+  getUnits,
+  lockedDepartment,
+  canEditLimits,
+}: {
+  schedules: LoadEntry[];
+  teachers: Teacher[];
+  departments: { id: string; name: string }[];
+  getUnits: (subjectId: string) => number;
+  lockedDepartment?: string; // Department-scoped roles only see their own teachers
+  canEditLimits: boolean;
+}) {
+  const { settings } = useSchedulingSettings();
+  const [filterDepartment, setFilterDepartment] = useState('');
+  const [onlyOverloaded, setOnlyOverloaded] = useState(false);
+  const department = lockedDepartment || filterDepartment;
+
+  const loads = calculateTeacherLoads(schedules, getUnits);
+  const rows: LoadRow[] = teachers
+    .filter((t) => !department || t.departmentId === department)
+    .map((t) => {
+      const load = loads.get(t.id) ?? { teacherId: t.id, contactMinutes: 0, units: 0, classes: 0 };
+      const employmentType = getEmploymentType(t);
+      const limit = settings.maxLoad[employmentType];
+      return {
+        ...load,
+        name: `${t.firstName} ${t.lastName}`,
+        employmentType,
+        limit,
+        overload: getOverloadReasons(load, limit),
+      };
+    })
+    .filter((row) => !onlyOverloaded || row.overload.length > 0)
+    .sort((a, b) => b.contactMinutes - a.contactMinutes);
+
+  const handleLimitChange = async (type: EmploymentType, field: keyof LoadLimit, value: number) => {
+    if (Number.isNaN(value) || value < 0) return;
+    try {
+      await setDoc(
+        doc(db, 'settings', 'scheduling'),
+        { maxLoad: { ...settings.maxLoad, [type]: { ...settings.maxLoad[type], [field]: value } } },
+        { merge: true }
+      );
+    } catch (error) {
+      Swal.fire('Error', 'Failed to update the maximum load', 'error');
+    }
+  };
+
+  const columns = [
+    { name: 'Teacher', selector: (row: LoadRow) => row.name, sortable: true },
+    { name: 'Employment', selector: (row: LoadRow) => EMPLOYMENT_TYPE_LABELS[row.employmentType], sortable: true },
+    { name: 'Classes', selector: (row: LoadRow) => row.classes, sortable: true },
+    { name: 'Hours / Week', selector: (row: LoadRow) => +(row.contactMinutes / 60).toFixed(1), sortable: true },
+    { name: 'Units', selector: (row: LoadRow) => row.units, sortable: true },
+    {
+      name: 'Max (h / units)',
+      selector: (row: LoadRow) => `${row.limit.hours || '-'} / ${row.limit.units || '-'}`,
+    },
+    {
+      name: 'Status',
+      selector: (row: LoadRow) => (row.overload.length ? 'Overloaded' : 'OK'),
+      sortable: true,
+      wrap: true,
+      cell: (row: LoadRow) =>
+        row.overload.length ? (
+          <span className="text-red-600">Overloaded: {row.overload.join(', ')}</span>
+        ) : (
+          <span className="text-green-600">OK</span>
+        ),
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {canEditLimits && (
+        <div className="border rounded-lg p-4">
+          <h4 className="font-semibold text-gray-700 mb-2">Maximum load per week (0 = no limit)</h4>
+          {/* Saved on blur; the keys reset the fields when the stored values change */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(Object.keys(EMPLOYMENT_TYPE_LABELS) as EmploymentType[]).map((type) => (
+              <div key={type} className="flex flex-wrap items-center gap-2">
+                <span className="w-24 text-gray-700">{EMPLOYMENT_TYPE_LABELS[type]}</span>
+                <input
+                  key={`${type}-hours-${settings.maxLoad[type].hours}`}
+                  type="number"
+                  min={0}
+                  defaultValue={settings.maxLoad[type].hours}
+                  onBlur={(e) => handleLimitChange(type, 'hours', Number(e.target.value))}
+                  className="w-20 p-2 border rounded"
+                />
+                <span className="text-sm text-gray-500">hours</span>
+                <input
+                  key={`${type}-units-${settings.maxLoad[type].units}`}
+                  type="number"
+                  min={0}
+                  defaultValue={settings.maxLoad[type].units}
+                  onBlur={(e) => handleLimitChange(type, 'units', Number(e.target.value))}
+                  className="w-20 p-2 border rounded"
+                />
+                <span className="text-sm text-gray-500">units</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-4">
+        {!lockedDepartment && (
+          <select value={filterDepartment} onChange={(e) => setFilterDepartment(e.target.value)} className="p-2 border rounded">
+            <option value="">All Departments</option>
+            {departments.map((dept) => (
+              <option key={dept.id} value={dept.id}>
+                {dept.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <label className="flex items-center gap-2 text-gray-700">
+          <input type="checkbox" checked={onlyOverloaded} onChange={(e) => setOnlyOverloaded(e.target.checked)} />
+          Only overloaded teachers
+        </label>
+      </div>
+      <DataTable
+        columns={columns}
+        data={rows}
+        pagination
+        responsive
+        highlightOnHover
+        noDataComponent="No teachers to show."
+      />
+    </div>
+  );
+}
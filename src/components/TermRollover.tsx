@@ -0,0 +1,237 @@
+'use client';
+import { useState } from 'react';
+import DataTable from 'react-data-table-component';
+import Swal from 'sweetalert2';
+import { AcademicTerm, getTermLabel, isInTerm, isOfferedInTerm } from '@/utils/academicTerms';
+import { isPublishedSchedule, ScheduleDraft } from '@/utils/scheduleDrafts';
+import { findDepartedTeachers, planRollover, RolloverItem, RolloverPlan } from '@/lib/scheduling/rollover';
+import { Teacher } from '@/utils/teachers';
+import { DraftSchedule, saveDraftWithEntries } from './ScheduleDraftsPanel';
+
+// Copies another term's published timetable into a new draft of the selected term
+export default function TermRollover({
+  terms,
+  termId,
+  currentTermId,
+  schedules,
+  drafts,
+  subjects,
+  teachers,
+  currentUserId,
+  getSubjectName,
+  getTeacherName,
+  onCreated,
+}: {
+  terms: AcademicTerm[];
+  termId: string; // Target term
+  currentTermId: string;
+  schedules: DraftSchedule[]; // Every entry, across terms and drafts
+  drafts: ScheduleDraft[]; // Every draft, across terms
+  subjects: { id: string; termIds?: string[] }[];
+  teachers: Teacher[];
+  currentUserId: string;
+  getSubjectName: (subjectId: string) => string;
+  getTeacherName: (teacherId: string) => string;
+  onCreated: (draftId: string) => void;
+}) {
+  const [sourceTermId, setSourceTermId] = useState('');
+  const [teacherMap, setTeacherMap] = useState<Record<string, string | null>>({});
+  const [plan, setPlan] = useState<RolloverPlan<DraftSchedule> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const targetTerm = terms.find((t) => t.id === termId);
+  const sourceDrafts = drafts.filter((d) => isInTerm(d, sourceTermId, currentTermId));
+  const sourceEntries = sourceTermId
+    ? schedules.filter((s) => isInTerm(s, sourceTermId, currentTermId) && isPublishedSchedule(s, sourceDrafts))
+    : [];
+  const activeTeacherIds = teachers.map((t) => t.id);
+  // Publishing the rollover draft replaces the target term's published version, so the draft keeps a copy of
+  // those entries and carried entries are checked against them (other drafts are alternative versions, not checked)
+  const targetDrafts = drafts.filter((d) => isInTerm(d, termId, currentTermId));
+  const targetEntries = schedules.filter((s) => isInTerm(s, termId, currentTermId) && isPublishedSchedule(s, targetDrafts));
+  const departed = findDepartedTeachers(sourceEntries, activeTeacherIds);
+
+  const handleSourceChange = (id: string) => {
+    setSourceTermId(id);
+    setTeacherMap({});
+    setPlan(null);
+  };
+
+  const handlePreview = () => {
+    setPlan(
+      planRollover(sourceEntries, {
+        activeTeacherIds,
+        teacherMap,
+        isSubjectAvailable: (subjectId) => {
+          const subject = subjects.find((s) => s.id === subjectId);
+          return !!subject && isOfferedInTerm(subject, termId);
+        },
+        describeSubject: getSubjectName,
+        existing: targetEntries,
+      })
+    );
+  };
+
+  const handleCreateDraft = async () => {
+    if (!plan || !targetTerm) return;
+    const sourceTerm = terms.find((t) => t.id === sourceTermId);
+    const carried = [...plan.clean, ...plan.flagged].map((item) => item.entry!);
+    const { value: name, isConfirmed } = await Swal.fire({
+      title: 'Create rollover draft',
+      input: 'text',
+      inputValue: `${getTermLabel(targetTerm)} (from ${sourceTerm ? getTermLabel(sourceTerm) : 'previous term'})`,
+      text:
+        `${carried.length} entries will be copied into a new draft` +
+        (targetEntries.length ? `, along with the ${targetEntries.length} entries already published for this term` : '') +
+        ', pending teacher approval once published.',
+      showCancelButton: true,
+      confirmButtonText: 'Create',
+      inputValidator: (value) => (!value.trim() ? 'Please enter a draft name' : null),
+    });
+    if (!isConfirmed) return;
+    setSaving(true);
+    try {
+      // Copies start as Pending, so teachers accept the new term's classes afresh
+      const draftId = await saveDraftWithEntries(
+        { name: name.trim(), status: 'draft', createdAt: new Date().toISOString(), createdBy: currentUserId },
+        [...targetEntries, ...carried],
+        termId
+      );
+      Swal.fire('Created', 'Rollover draft created. Review it before publishing.', 'success');
+      setPlan(null);
+      onCreated(draftId);
+    } catch (error) {
+      Swal.fire('Error', 'Failed to create rollover draft', 'error');
+    }
+    setSaving(false);
+  };
+
+  if (!targetTerm) {
+    return <p className="text-gray-600">Set up academic terms in the Calendar tab to roll schedules over.</p>;
+  }
+
+  const attentionColumns = [
+    { name: 'Subject', selector: (row: RolloverItem<DraftSchedule>) => getSubjectName(row.source.subjectId), sortable: true },
+    {
+      name: 'Original',
+      selector: (row: RolloverItem<DraftSchedule>) =>
+        `${row.source.days.join(', ')} ${row.source.startTime}-${row.source.endTime}, ${row.source.room}, ${getTeacherName(row.source.teacherId)}`,
+      wrap: true,
+    },
+    {
+      name: 'Result',
+      selector: (row: RolloverItem<DraftSchedule>) =>
+        row.entry ? `Carried over (${getTeacherName(row.entry.teacherId)})` : 'Not carried over',
+      sortable: true,
+    },
+    {
+      name: 'Needs Attention',
+      selector: (row: RolloverItem<DraftSchedule>) => row.issues.map((i) => i.detail).join('; '),
+      wrap: true,
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="text-gray-700">Copy from</label>
+        <select value={sourceTermId} onChange={(e) => handleSourceChange(e.target.value)} className="p-2 border rounded">
+          <option value="">Select Term</option>
+          {terms
+            .filter((t) => t.id !== termId)
+            .map((t) => (
+              <option key={t.id} value={t.id}>
+                {getTermLabel(t)}
+              </option>
+            ))}
+        </select>
+        <span className="text-gray-500">into {getTermLabel(targetTerm)}</span>
+      </div>
+
+      {sourceTermId && (
+        <p className="text-sm text-gray-600">{sourceEntries.length} published entries in the selected term.</p>
+      )}
+
+      {/* Teachers who left need a replacement, or their classes are left out */}
+      {departed.length > 0 && (
+        <div className="border border-yellow-300 bg-yellow-50 rounded-lg p-4 space-y-2">
+          <p className="font-semibold text-yellow-800">
+            {departed.length} teacher(s) in that term are no longer on staff. Choose a replacement for each:
+          </p>
+          {departed.map((id) => (
+            <div key={id} className="flex flex-wrap items-center gap-2">
+              <span className="w-64 text-sm text-gray-700">
+                Former teacher ({sourceEntries.filter((s) => s.teacherId === id).length} entries, id {id})
+              </span>
+              <select
+                value={teacherMap[id] ?? ''}
+                onChange={(e) => {
+                  setTeacherMap({ ...teacherMap, [id]: e.target.value || null });
+                  setPlan(null);
+                }}
+                className="p-2 border rounded"
+              >
+                <option value="">Leave these classes out</option>
+                {teachers.map((teacher) => (
+                  <option key={teacher.id} value={teacher.id}>
+                    {teacher.firstName} {teacher.lastName}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handlePreview}
+        disabled={sourceEntries.length === 0}
+        className="w-full bg-primary text-white px-6 py-3 rounded-lg hover:bg-accent-blue transition-colors disabled:opacity-50"
+      >
+        Preview Rollover
+      </button>
+
+      {plan && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+            <div className="rounded-lg bg-green-50 p-4">
+              <p className="text-2xl font-bold text-green-700">{plan.clean.length}</p>
+              <p className="text-sm text-gray-600">Carried over cleanly</p>
+            </div>
+            <div className="rounded-lg bg-yellow-50 p-4">
+              <p className="text-2xl font-bold text-yellow-700">{plan.flagged.length}</p>
+              <p className="text-sm text-gray-600">Carried over with changes</p>
+            </div>
+            <div className="rounded-lg bg-red-50 p-4">
+              <p className="text-2xl font-bold text-red-600">{plan.dropped.length}</p>
+              <p className="text-sm text-gray-600">Not carried over</p>
+            </div>
+          </div>
+          {targetEntries.length > 0 && (
+            <p className="text-sm text-gray-600">
+              The draft also keeps the {targetEntries.length} entries already published for {getTermLabel(targetTerm)}, so
+              publishing it doesn't drop them from the live timetable.
+            </p>
+          )}
+          {plan.flagged.length + plan.dropped.length > 0 && (
+            <DataTable
+              title="Needs Attention"
+              columns={attentionColumns}
+              data={[...plan.dropped, ...plan.flagged]}
+              pagination
+              responsive
+              highlightOnHover
+            />
+          )}
+          <button
+            onClick={handleCreateDraft}
+            disabled={saving || plan.clean.length + plan.flagged.length === 0}
+            className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Creating...' : 'Create Draft'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
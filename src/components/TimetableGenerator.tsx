@@ -0,0 +1,423 @@
+'use client';
+import { useState } from 'react';
+import DataTable from 'react-data-table-component';
+import Select from 'react-select';
+import { db } from '@/utils/firebase';
+import { addDoc, collection } from 'firebase/firestore';
+import Swal from 'sweetalert2';
+import { ScheduleSlot } from '@/lib/scheduling/conflicts';
+import { SCHOOL_DAY_END, SCHOOL_DAY_START } from '@/lib/scheduling/slots';
+import {
+  GeneratedEntry,
+  generateTimetable,
+  GeneratorResult,
+  getOfferingProblem,
+  Offering,
+} from '@/lib/scheduling/generator';
+import { useRooms } from '@/hooks/useRooms';
+import { getRoomLabel, RoomType } from '@/utils/rooms';
+import { useSections } from '@/hooks/useSections';
+import { useSchedulingSettings } from '@/hooks/useSchedulingSettings';
+import { getSectionLabel } from '@/utils/sections';
+import { useTeacherAvailability } from '@/hooks/useTeacherAvailability';
+import { toUnavailableBlocks } from '@/utils/teacherAvailability';
+import { escapeHtml } from '@/utils/html';
+import { useTeacherQualifications } from '@/hooks/useTeacherQualifications';
+import { isQualified } from '@/utils/qualifications';
+import { Teacher } from '@/utils/teachers';
+
+interface GeneratorSubject {
+  id: string;
+  subjectCode: string;
+  subjectName: string;
+  departmentId: string;
+  courseId?: string;
+  units?: string;
+  roomType?: RoomType | '';
+  fixedSchedule?: { days: string[]; startTime: string; endTime: string };
+}
+
+// Per-subject settings in the offerings table
+interface OfferingForm {
+  include: boolean;
+  teacherId: string;
+  sectionId: string;
+  meetingsPerWeek: number;
+  durationMinutes: number;
+}
+
+const TEACHING_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const dayOptions = TEACHING_DAYS.map((day) => ({ value: day, label: day }));
+
+// Two meetings a week, splitting the subject's units (1 unit = 1 hour a week) between them
+const defaultOffering = (subject: GeneratorSubject): OfferingForm => {
+  const units = Number(subject.units) || 3;
+  return { include: false, teacherId: '', sectionId: '', meetingsPerWeek: 2, durationMinutes: Math.round((units * 60) / 2 / 30) * 30 };
+};
+
+// Builds a timetable for a department's subjects and saves it into a draft as pending entries
+export default function TimetableGenerator({
+  subjects,
+  teachers,
+  schedules,
+  draftId,
+  termId,
+  departmentId,
+  getSubjectName,
+  getTeacherName,
+}: {
+  subjects: GeneratorSubject[]; // Already limited to the term's offerings
+  teachers: Teacher[];
+  schedules: ScheduleSlot[];
+  draftId: string; // Generated entries are saved into this draft
+  termId: string;
+  departmentId: string;
+  getSubjectName: (subjectId: string) => string;
+  getTeacherName: (teacherId: string) => string;
+}) {
+  const [offerings, setOfferings] = useState<Record<string, OfferingForm>>({});
+  const { rooms: roomList } = useRooms();
+  const roomOptions = roomList.map((room) => ({ value: room.code, label: getRoomLabel(room) }));
+  const [rooms, setRooms] = useState<string[]>([]);
+  const { sections } = useSections();
+  const { settings: schedulingSettings } = useSchedulingSettings();
+  const { availabilities } = useTeacherAvailability();
+  const { qualifications } = useTeacherQualifications();
+  const [days, setDays] = useState<string[]>(TEACHING_DAYS.slice(0, 5));
+  const [dayStart, setDayStart] = useState(SCHOOL_DAY_START);
+  const [dayEnd, setDayEnd] = useState(SCHOOL_DAY_END);
+  const [maxHoursPerDay, setMaxHoursPerDay] = useState(6);
+  const [result, setResult] = useState<GeneratorResult | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+
+  const termSubjects = subjects.filter((s) => s.departmentId === departmentId);
+
+  const getOffering = (subject: GeneratorSubject) => offerings[subject.id] ?? defaultOffering(subject);
+  const updateOffering = (subject: GeneratorSubject, changes: Partial<OfferingForm>) => {
+    setOfferings({ ...offerings, [subject.id]: { ...getOffering(subject), ...changes } });
+    setResult(null);
+  };
+
+  const handleGenerate = () => {
+    const selected = termSubjects.filter((s) => getOffering(s).include);
+    if (selected.length === 0) {
+      Swal.fire('Info', 'Include at least one subject to generate a timetable', 'info');
+      return;
+    }
+    if (selected.some((s) => !getOffering(s).teacherId || !getOffering(s).sectionId)) {
+      Swal.fire('Warning', 'Assign a teacher and a section to every included subject', 'warning');
+      return;
+    }
+    // The generator has no override reason, so unqualified assignments go through the schedule form instead
+    const unqualified = selected.find((s) => !isQualified(qualifications, getOffering(s).teacherId, s.id));
+    if (unqualified) {
+      Swal.fire(
+        'Warning',
+        escapeHtml(
+          `${getTeacherName(getOffering(unqualified).teacherId)} is not qualified for ${unqualified.subjectName}. Pick a qualified teacher, or schedule it from the form with an override reason.`
+        ),
+        'warning'
+      );
+      return;
+    }
+    const invalid = selected.find((s) => getOfferingProblem({ ...getOffering(s), fixedSchedule: s.fixedSchedule }));
+    if (invalid) {
+      Swal.fire(
+        'Warning',
+        escapeHtml(`${invalid.subjectName} (${invalid.subjectCode}): ${getOfferingProblem(getOffering(invalid))}`),
+        'warning'
+      );
+      return;
+    }
+    if (rooms.length === 0 || days.length === 0) {
+      Swal.fire('Warning', 'Enter at least one room and one teaching day', 'warning');
+      return;
+    }
+    const input: Offering[] = selected.map((subject) => {
+      const { teacherId, sectionId, meetingsPerWeek, durationMinutes } = getOffering(subject);
+      // Only rooms of the type the subject needs, and under the hard capacity rule only those that seat the whole section
+      const size = sections.find((s) => s.id === sectionId)?.size ?? 0;
+      const offeringRooms = rooms.filter((code) => {
+        const room = roomList.find((r) => r.code === code);
+        if (!room) return true;
+        if (subject.roomType && room.type !== subject.roomType) return false;
+        return schedulingSettings.capacityEnforcement !== 'hard' || room.capacity >= size;
+      });
+      return {
+        subjectId: subject.id,
+        teacherId,
+        sectionId,
+        rooms: offeringRooms,
+        meetingsPerWeek,
+        durationMinutes,
+        fixedSchedule: subject.fixedSchedule,
+      };
+    });
+    // The search blocks for up to about a second on large terms, so let the button show its busy state first
+    setGenerating(true);
+    setTimeout(() => {
+      setResult(
+        generateTimetable({
+          offerings: input,
+          rooms,
+          roomHours: Object.fromEntries(
+            roomList
+              .filter((room) => room.availableFrom && room.availableTo)
+              .map((room) => [room.code, { availableFrom: room.availableFrom!, availableTo: room.availableTo! }])
+          ),
+          existing: schedules,
+          unavailable: toUnavailableBlocks(availabilities),
+          constraints: { days, dayStart, dayEnd, maxMinutesPerDay: maxHoursPerDay > 0 ? maxHoursPerDay * 60 : undefined },
+        })
+      );
+      setGenerating(false);
+    }, 0);
+  };
+
+  // Generated entries go through the normal approval workflow, like entries from the form
+  const handleSave = async () => {
+    if (!result || result.entries.length === 0) return;
+    const confirmResult = await Swal.fire({
+      title: 'Save timetable?',
+      text: `This will add ${result.entries.length} entries to the draft, pending teacher approval once published.`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Save',
+    });
+    if (!confirmResult.isConfirmed) return;
+    setSaving(true);
+    try {
+      await Promise.all(
+        result.entries.map((entry) =>
+          addDoc(collection(db, 'schedules'), {
+            ...entry,
+            departmentId,
+            draftId,
+            ...(termId ? { termId } : {}),
+            createdAt: new Date().toISOString(),
+            approved: false,
+            status: 'pending',
+          })
+        )
+      );
+      Swal.fire('Success', 'Generated schedule entries saved', 'success');
+      setResult(null);
+    } catch (error) {
+      Swal.fire('Error', 'Failed to save one or more schedule entries', 'error');
+    }
+    setSaving(false);
+  };
+
+  if (!draftId) {
+    return <p className="text-gray-600">Select a draft above; generated timetables are saved into it.</p>;
+  }
+  if (!departmentId) {
+    return <p className="text-gray-600">Select a department in the form above to generate its timetable.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Offerings */}
+      <p className="text-sm text-gray-500">
+        Subjects offered in the selected term. Subjects with a fixed schedule keep their days and times.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-100 text-left">
+              <th className="p-2">Include</th>
+              <th className="p-2">Subject</th>
+              <th className="p-2">Teacher</th>
+              <th className="p-2">Section</th>
+              <th className="p-2">Meetings / Week</th>
+              <th className="p-2">Minutes / Meeting</th>
+            </tr>
+          </thead>
+          <tbody>
+            {termSubjects.map((subject) => {
+              const offering = getOffering(subject);
+              const qualifiedTeachers = teachers.filter((t) => isQualified(qualifications, t.id, subject.id));
+              return (
+                <tr key={subject.id} className="border-b">
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      checked={offering.include}
+                      onChange={(e) => updateOffering(subject, { include: e.target.checked })}
+                    />
+                  </td>
+                  <td className="p-2">
+                    {subject.subjectName} ({subject.subjectCode})
+                    {subject.fixedSchedule && (
+                      <span className="block text-xs text-gray-500">
+                        Fixed: {subject.fixedSchedule.days.join(', ')} {subject.fixedSchedule.startTime}-
+                        {subject.fixedSchedule.endTime}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={offering.teacherId}
+                      onChange={(e) => updateOffering(subject, { teacherId: e.target.value })}
+                      className="p-2 border rounded"
+                    >
+                      <option value="">Select Teacher</option>
+                      {qualifiedTeachers.map((teacher) => (
+                        <option key={teacher.id} value={teacher.id}>
+                          {teacher.firstName} {teacher.lastName}
+                        </option>
+                      ))}
+                    </select>
+                    {qualifiedTeachers.length === 0 && (
+                      <span className="block text-xs text-yellow-700">No teacher is qualified for this subject yet.</span>
+                    )}
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={offering.sectionId}
+                      onChange={(e) => updateOffering(subject, { sectionId: e.target.value })}
+                      className="p-2 border rounded"
+                    >
+                      <option value="">Select Section</option>
+                      {sections
+                        .filter((section) => section.courseId === subject.courseId)
+                        .map((section) => (
+                          <option key={section.id} value={section.id}>
+                            {getSectionLabel(section)}
+                          </option>
+                        ))}
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      min={1}
+                      max={TEACHING_DAYS.length}
+                      value={offering.meetingsPerWeek}
+                      disabled={!!subject.fixedSchedule}
+                      onChange={(e) => updateOffering(subject, { meetingsPerWeek: Number(e.target.value) })}
+                      className="w-20 p-2 border rounded"
+                    />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      min={30}
+                      step={30}
+                      value={offering.durationMinutes}
+                      disabled={!!subject.fixedSchedule}
+                      onChange={(e) => updateOffering(subject, { durationMinutes: Number(e.target.value) })}
+                      className="w-24 p-2 border rounded"
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Rooms and constraints */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          isMulti
+          options={roomOptions}
+          value={roomOptions.filter((option) => rooms.includes(option.value))}
+          onChange={(selectedOptions: any) => setRooms(selectedOptions.map((option: { value: string }) => option.value))}
+          className="basic-multi-select"
+          classNamePrefix="select"
+          placeholder="Rooms to use"
+        />
+        <Select
+          isMulti
+          options={dayOptions}
+          value={dayOptions.filter((option) => days.includes(option.value))}
+          onChange={(selectedOptions: any) => setDays(selectedOptions.map((option: { value: string }) => option.value))}
+          className="basic-multi-select"
+          classNamePrefix="select"
+          placeholder="Teaching Days"
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">Day starts</label>
+          <input type="time" value={dayStart} onChange={(e) => setDayStart(e.target.value)} className="w-full p-3 border rounded-lg" />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">Day ends</label>
+          <input type="time" value={dayEnd} onChange={(e) => setDayEnd(e.target.value)} className="w-full p-3 border rounded-lg" />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">Max teaching hours per day (0 = no limit)</label>
+          <input
+            type="number"
+            min={0}
+            value={maxHoursPerDay}
+            onChange={(e) => setMaxHoursPerDay(Number(e.target.value))}
+            className="w-full p-3 border rounded-lg"
+          />
+        </div>
+      </div>
+      <button
+        onClick={handleGenerate}
+        disabled={generating}
+        className="w-full bg-primary text-white px-6 py-3 rounded-lg hover:bg-accent-blue transition-colors disabled:opacity-50"
+      >
+        {generating ? 'Generating...' : 'Generate Timetable'}
+      </button>
+
+      {/* Result */}
+      {result && (
+        <div className="space-y-4">
+          {!result.complete && (
+            <p className="text-yellow-700">
+              The search stopped early on this large problem; the result is valid but may not place everything possible.
+            </p>
+          )}
+          {result.unplaced.length > 0 && (
+            <div className="border border-red-200 rounded-lg p-4">
+              <h4 className="font-semibold text-red-600 mb-2">Could not place {result.unplaced.length} subject(s)</h4>
+              <ul className="list-disc ml-5 text-sm text-gray-700">
+                {result.unplaced.map(({ offering, reason }) => (
+                  <li key={offering.subjectId}>
+                    {getSubjectName(offering.subjectId)} ({getTeacherName(offering.teacherId)}): {reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <DataTable
+            title="Generated Draft"
+            columns={[
+              { name: 'Subject', selector: (row: GeneratedEntry) => getSubjectName(row.subjectId), sortable: true },
+              { name: 'Teacher', selector: (row: GeneratedEntry) => getTeacherName(row.teacherId), sortable: true },
+              {
+                name: 'Section',
+                selector: (row: GeneratedEntry) => {
+                  const section = sections.find((s) => s.id === row.sectionId);
+                  return section ? getSectionLabel(section) : '';
+                },
+                sortable: true,
+              },
+              { name: 'Room', selector: (row: GeneratedEntry) => row.room, sortable: true },
+              { name: 'Days', selector: (row: GeneratedEntry) => row.days.join(', ') },
+              { name: 'Time', selector: (row: GeneratedEntry) => `${row.startTime}-${row.endTime}`, sortable: true },
+            ]}
+            data={result.entries}
+            pagination
+            responsive
+            highlightOnHover
+          />
+          <button
+            onClick={handleSave}
+            disabled={saving || result.entries.length === 0}
+            className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : `Save ${result.entries.length} Entries`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,8 +16,11 @@ import {
   where,
 } from 'firebase/firestore';
 import Swal from 'sweetalert2';
-import bcrypt from 'bcryptjs';
-import { Role, ROLES } from '@/utils/roles';
+import { canEditUser, getRoleLabel, getUserRoleOptions, isDepartmentScoped, Role } from '@/utils/roles';
+import { usePermissions } from '@/hooks/usePermissions';
+import { escapeHtml } from '@/utils/html';
+import { EMPLOYMENT_TYPE_LABELS, EmploymentType } from '@/utils/schedulingSettings';
+import { AccountRequest } from './AccountRequestManagement';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import {
   faEye,
@@ -26,15 +29,11 @@ import {
   faTrash,
   faFileExport,
   faFileImport,
+  faKey,
+  faUnlock,
+  faUserSecret,
 } from '@fortawesome/free-solid-svg-icons';
 
-const ROLE_NAMES: Record<Role, string> = {
-  admin: 'Administrator',
-  registrar: 'Registrar',
-  dept_head: 'Department Head',
-  teacher: 'Teacher'
-};
-
 interface User {
   id?: string;
   username: string;
@@ -43,11 +42,45 @@ interface User {
   lastName: string;
   role: Role;
   departmentId?: string;
-  password: string;
+  employmentType?: EmploymentType; // Teachers only; sets their maximum teaching load
+  status?: 'active' | 'pending_setup'; // Pending until a password is set (see /api/auth/set-password)
   createdAt: string;
 }
 
-export default function UserManagement({ currentUserRole, currentUserDepartment }: { currentUserRole: Role, currentUserDepartment: string }) {
+interface ImpersonationLog {
+  id: string;
+  adminId: string;
+  targetUserId: string;
+  targetUsername: string;
+  targetRole: Role;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+interface LoginAttempt {
+  id: string;
+  type: 'username' | 'ip';
+  value: string;
+  failedCount: number;
+  lockedUntil: string | null;
+  lastFailedAt: string;
+}
+
+export default function UserManagement({
+  currentUserRole,
+  currentUserDepartment,
+  prefill,
+  onPrefillUsed,
+}: {
+  currentUserRole: Role;
+  currentUserDepartment: string;
+  prefill?: AccountRequest | null;
+  onPrefillUsed?: () => void;
+}) {
+  const { permissions } = usePermissions();
+  const canManageUsers = permissions[currentUserRole]?.canManageUsers ?? false;
+  // Lockouts and the impersonation log span every department
+  const canAuditLogins = canManageUsers && !isDepartmentScoped(permissions, currentUserRole);
   // State variables
   const [users, setUsers] = useState<User[]>([]);
   const [departments, setDepartments] = useState<any[]>([]);
@@ -58,6 +91,7 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
     lastName: '',
     role: 'teacher' as Role,
     departmentId: '',
+    employmentType: 'full_time' as EmploymentType,
     password: '',
   });
   const [loading, setLoading] = useState(true);
@@ -69,6 +103,10 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
   const [filterRole, setFilterRole] = useState<string>('');
   // Selected rows from DataTable
   const [selectedRows, setSelectedRows] = useState<User[]>([]);
+  // Usernames / IP addresses temporarily locked after failed logins
+  const [loginAttempts, setLoginAttempts] = useState<LoginAttempt[]>([]);
+  // Audit trail of "view as" sessions
+  const [impersonationLogs, setImpersonationLogs] = useState<ImpersonationLog[]>([]);
 
   // Fetch departments and users on mount
   useEffect(() => {
@@ -85,8 +123,30 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
       setLoading(false);
     };
 
-    if (ROLES[currentUserRole]?.canManageUsers) fetchData();
-  }, [currentUserRole]);
+    if (canManageUsers) fetchData();
+  }, [canManageUsers]);
+
+  // Real-time listener for failed login tracking
+  useEffect(() => {
+    if (!canAuditLogins) return;
+    const unsubscribe = onSnapshot(collection(db, 'loginAttempts'), (snapshot) => {
+      setLoginAttempts(snapshot.docs.map((d) => ({ ...d.data(), id: d.id } as LoginAttempt)));
+    });
+    return () => unsubscribe();
+  }, [canAuditLogins]);
+
+  // Real-time listener for the impersonation audit log
+  useEffect(() => {
+    if (!canAuditLogins) return;
+    const unsubscribe = onSnapshot(collection(db, 'impersonationLogs'), (snapshot) => {
+      setImpersonationLogs(
+        snapshot.docs
+          .map((d) => ({ ...d.data(), id: d.id } as ImpersonationLog))
+          .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      );
+    });
+    return () => unsubscribe();
+  }, [canAuditLogins]);
 
   // Real-time listener for users with a 500ms delay for smoother updates
   useEffect(() => {
@@ -98,13 +158,29 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
     return () => unsubscribe();
   }, []);
 
+  // Pre-fill the create form from an approved account request
+  useEffect(() => {
+    if (!prefill) return;
+    const [firstName, ...rest] = prefill.name.trim().split(' ');
+    setNewUser((prev) => ({
+      ...prev,
+      username: prefill.email.split('@')[0],
+      email: prefill.email,
+      firstName,
+      lastName: rest.join(' '),
+      role: 'teacher',
+      departmentId: prefill.departmentId,
+      password: '',
+    }));
+    onPrefillUsed?.();
+  }, [prefill, onPrefillUsed]);
+
   // Get eligible roles based on current user’s role
-  const getEligibleRoles = () => {
-    if (currentUserRole === 'admin') return ['admin', 'registrar', 'dept_head', 'teacher'];
-    if (currentUserRole === 'registrar') return ['registrar', 'dept_head', 'teacher'];
-    if (currentUserRole === 'dept_head') return ['teacher'];
-    return [];
-  };
+  const getEligibleRoles = () => getUserRoleOptions(permissions, currentUserRole);
+
+  // Whether the current user may edit, delete or reset the given user
+  const canEdit = (user: User) =>
+    canEditUser(permissions, currentUserRole, user.role, currentUserDepartment, user.departmentId);
 
   // Basic email validation
   const validateEmail = (email: string) => {
@@ -112,7 +188,7 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
     return re.test(email);
   };
 
-  // Create a new user (hashing password)
+  // Create a new user; the server hashes the password into userCredentials, which clients can't read
   const handleCreateUser = async () => {
     if (!newUser.username || !newUser.email || !newUser.firstName || !newUser.lastName || !newUser.password) {
       Swal.fire('Warning', 'Please fill all required fields', 'warning');
@@ -126,25 +202,49 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
       Swal.fire('Warning', 'Password must be at least 6 characters long', 'warning');
       return;
     }
-    if ((newUser.role === 'dept_head' || newUser.role === 'teacher') && !newUser.departmentId) {
+    if (isDepartmentScoped(permissions, newUser.role) && !newUser.departmentId) {
       Swal.fire('Warning', 'Please select a department for this role', 'warning');
       return;
     }
     try {
-      const hashedPassword = await bcrypt.hash(newUser.password, 10);
       const userData: User = {
         username: newUser.username,
         email: newUser.email,
         firstName: newUser.firstName,
         lastName: newUser.lastName,
         role: newUser.role,
-        departmentId: (newUser.role === 'dept_head' || newUser.role === 'teacher') ? newUser.departmentId : '',
-        password: hashedPassword,
+        departmentId: isDepartmentScoped(permissions, newUser.role) ? newUser.departmentId : '',
+        ...(newUser.role === 'teacher' ? { employmentType: newUser.employmentType } : {}),
+        status: 'pending_setup',
         createdAt: new Date().toISOString(),
       };
-      await addDoc(collection(db, 'users'), userData);
-      Swal.fire('Success', 'User created successfully', 'success');
-      setNewUser({ username: '', email: '', firstName: '', lastName: '', role: 'teacher', departmentId: '', password: '' });
+      const userRef = await addDoc(collection(db, 'users'), userData);
+      const res = await fetch('/api/auth/set-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: userRef.id, password: newUser.password }),
+      });
+      if (res.ok) {
+        Swal.fire('Success', 'User created successfully', 'success');
+      } else {
+        // The account exists but stays pending, so a setup link still gets them in
+        const data = await res.json().catch(() => ({}));
+        Swal.fire(
+          'Warning',
+          `User created, but the password could not be set (${data.error ?? 'unknown error'}). Send them a setup link instead.`,
+          'warning'
+        );
+      }
+      setNewUser({
+        username: '',
+        email: '',
+        firstName: '',
+        lastName: '',
+        role: 'teacher',
+        departmentId: '',
+        employmentType: 'full_time',
+        password: '',
+      });
     } catch (error: any) {
       Swal.fire('Error', 'Failed to create user', 'error');
     }
@@ -170,6 +270,90 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
     }
   };
 
+  // Generate a one-time reset / first-login setup link for a user
+  const handleGenerateResetLink = async (user: User) => {
+    if (!user.id) return;
+    try {
+      const res = await fetch('/api/auth/reset-token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: user.id }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        Swal.fire('Error', data.error || 'Failed to create reset link', 'error');
+        return;
+      }
+      const result = await Swal.fire({
+        title: user.status === 'pending_setup' ? 'Password Setup Link' : 'Password Reset Link',
+        html: `<p class="mb-2">Share this one-time link with <b>${escapeHtml(user.username)}</b>. It expires on ${escapeHtml(new Date(data.expiresAt).toLocaleString())}.</p>
+          <input class="swal2-input" value="${escapeHtml(data.link)}" readonly />`,
+        icon: 'info',
+        showCancelButton: true,
+        confirmButtonText: 'Copy Link',
+        cancelButtonText: 'Close',
+      });
+      if (result.isConfirmed) {
+        await navigator.clipboard.writeText(data.link);
+        Swal.fire('Copied!', 'The link has been copied to your clipboard.', 'success');
+      }
+    } catch (error: any) {
+      Swal.fire('Error', 'Failed to create reset link', 'error');
+    }
+  };
+
+  // Start a read-only "view as" session for the selected user (admin only)
+  const handleViewAs = async (user: User) => {
+    if (!user.id) return;
+    const confirmResult = await Swal.fire({
+      title: `View as ${user.username}?`,
+      text: 'You will see the dashboard exactly as this user does. Changes are disabled and the session is logged.',
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'View as user',
+    });
+    if (!confirmResult.isConfirmed) return;
+    try {
+      const res = await fetch('/api/auth/impersonate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: user.id }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        Swal.fire('Error', data.error || 'Failed to view as this user', 'error');
+        return;
+      }
+      // Full reload so the dashboard and Firebase pick up the impersonated session
+      window.location.href = '/dashboard';
+    } catch (error: any) {
+      Swal.fire('Error', 'Failed to view as this user', 'error');
+    }
+  };
+
+  // Lift a temporary lockout by clearing the failed-attempt record
+  const handleUnlock = async (attempt: LoginAttempt) => {
+    const confirmResult = await Swal.fire({
+      title: 'Unlock?',
+      text: `This will clear failed login attempts for ${attempt.type === 'ip' ? 'IP address' : 'user'} "${attempt.value}".`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Yes, unlock',
+    });
+    if (confirmResult.isConfirmed) {
+      try {
+        await deleteDoc(doc(db, 'loginAttempts', attempt.id));
+        Swal.fire('Unlocked!', 'The lockout has been cleared.', 'success');
+      } catch (error: any) {
+        Swal.fire('Error', 'Failed to unlock', 'error');
+      }
+    }
+  };
+
+  const lockedAccounts = loginAttempts.filter(
+    (a) => a.lockedUntil && new Date(a.lockedUntil).getTime() > Date.now()
+  );
+
   // Open edit modal with selected user
   const openEditModal = (user: User) => {
     setEditUser(user);
@@ -202,7 +386,8 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
         firstName: editUser.firstName,
         lastName: editUser.lastName,
         role: editUser.role,
-        departmentId: (editUser.role === 'dept_head' || editUser.role === 'teacher') ? editUser.departmentId : '',
+        departmentId: isDepartmentScoped(permissions, editUser.role) ? editUser.departmentId : '',
+        ...(editUser.role === 'teacher' ? { employmentType: editUser.employmentType ?? 'full_time' } : {}),
       });
       Swal.fire('Success', 'User updated successfully', 'success');
       setIsEditModalOpen(false);
@@ -242,7 +427,7 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
     },
     {
       name: 'Role',
-      selector: (row: User) => row.role,
+      selector: (row: User) => getRoleLabel(permissions, row.role),
       sortable: true,
     },
     {
@@ -250,6 +435,11 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
       selector: (row: User) => (row.departmentId ? getDepartmentName(row.departmentId) : 'N/A'),
       sortable: true,
     },
+    {
+      name: 'Status',
+      selector: (row: User) => (row.status === 'pending_setup' ? 'Pending Setup' : 'Active'),
+      sortable: true,
+    },
   ];
 
   // Custom subheader (toolbar) for DataTable
@@ -260,6 +450,8 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
           onClick={() => {
             if (selectedRows.length !== 1) {
               Swal.fire('Info', 'Please select exactly one user to edit', 'info');
+            } else if (!canEdit(selectedRows[0])) {
+              Swal.fire('Warning', 'You do not have permission to edit this user', 'warning');
             } else {
               openEditModal(selectedRows[0]);
             }
@@ -272,6 +464,8 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
           onClick={() => {
             if (selectedRows.length === 0) {
               Swal.fire('Info', 'Please select at least one user to delete', 'info');
+            } else if (!selectedRows.every(canEdit)) {
+              Swal.fire('Warning', 'You do not have permission to delete some of the selected users', 'warning');
             } else {
               const ids = selectedRows.map((row: User) => row.id) as string[];
               ids.forEach((id) => handleDeleteUser(id));
@@ -281,6 +475,32 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
         >
           <FontAwesomeIcon icon={faTrash} className="mr-2" /> Delete Selected
         </button>
+        <button
+          onClick={() => {
+            if (selectedRows.length !== 1) {
+              Swal.fire('Info', 'Please select exactly one user to reset', 'info');
+            } else {
+              handleGenerateResetLink(selectedRows[0]);
+            }
+          }}
+          className="bg-purple-500 hover:bg-purple-600 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <FontAwesomeIcon icon={faKey} className="mr-2" /> Reset Link
+        </button>
+        {currentUserRole === 'admin' && (
+          <button
+            onClick={() => {
+              if (selectedRows.length !== 1) {
+                Swal.fire('Info', 'Please select exactly one user to view as', 'info');
+              } else {
+                handleViewAs(selectedRows[0]);
+              }
+            }}
+            className="bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <FontAwesomeIcon icon={faUserSecret} className="mr-2" /> View As
+          </button>
+        )}
         <button
           onClick={handleExportUsers}
           className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg transition-colors"
@@ -354,7 +574,7 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
           const [firstName, ...rest] = row['Name'].split(' ');
           const lastName = rest.join(' ');
           const dept = departments.find((d) => d.name === row['Department']);
-          if (dept) {
+          if (dept && getEligibleRoles().includes(row['Role'])) {
             const userData: User = {
               username: row['Username'],
               email: row['Email'],
@@ -362,14 +582,18 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
               lastName,
               role: row['Role'],
               departmentId: dept.id,
-              password: '', // Imported users need to reset their password
+              status: 'pending_setup',
               createdAt: new Date().toISOString(),
             };
             await addDoc(collection(db, 'users'), userData);
           }
         }
       }
-      Swal.fire('Success', 'Users imported successfully', 'success');
+      Swal.fire(
+        'Success',
+        'Users imported successfully. Select each imported user and click "Reset Link" to send them a password setup link.',
+        'success'
+      );
     };
     input.click();
   };
@@ -384,7 +608,7 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
     },
   };
 
-  if (!ROLES[currentUserRole]?.canManageUsers) {
+  if (!canManageUsers) {
     return (
       <div className="p-6 bg-white rounded-xl shadow-lg">
         <h3 className="text-red-500">You don't have permission to manage users</h3>
@@ -449,13 +673,13 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
           >
             {getEligibleRoles().map((r) => (
               <option key={r} value={r}>
-                {ROLE_NAMES[r as Role]}
+                {getRoleLabel(permissions, r)}
               </option>
             ))}
           </select>
-          {(newUser.role === 'dept_head' || newUser.role === 'teacher') && (
+          {isDepartmentScoped(permissions, newUser.role) && (
             <>
-              {currentUserRole === 'dept_head' ? (
+              {isDepartmentScoped(permissions, currentUserRole) ? (
                 // If the logged-in user is a department head, lock the department selection
                 <select
                   value={currentUserDepartment}
@@ -487,6 +711,19 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
               )}
             </>
           )}
+          {newUser.role === 'teacher' && (
+            <select
+              value={newUser.employmentType}
+              onChange={(e) => setNewUser({ ...newUser, employmentType: e.target.value as EmploymentType })}
+              className="w-full p-3 border rounded-lg"
+            >
+              {(Object.keys(EMPLOYMENT_TYPE_LABELS) as EmploymentType[]).map((type) => (
+                <option key={type} value={type}>
+                  {EMPLOYMENT_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          )}
           <button
             onClick={handleCreateUser}
             className="bg-primary text-white px-6 py-3 rounded-lg hover:bg-accent-blue transition-colors"
@@ -519,12 +756,95 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
           <option value="">All Roles</option>
           {getEligibleRoles().map((r) => (
             <option key={r} value={r}>
-              {ROLE_NAMES[r as Role]}
+              {getRoleLabel(permissions, r)}
             </option>
           ))}
         </select>
       </div>
 
+      {/* Locked Accounts Section (admin only) */}
+      {canAuditLogins && lockedAccounts.length > 0 && (
+        <div className="bg-white rounded-xl p-6 shadow-lg">
+          <h3 className="text-xl font-semibold text-primary mb-4">Locked Accounts</h3>
+          <DataTable
+            columns={[
+              {
+                name: 'Type',
+                selector: (row: LoginAttempt) => (row.type === 'ip' ? 'IP Address' : 'Username'),
+                sortable: true,
+              },
+              {
+                name: 'Value',
+                selector: (row: LoginAttempt) => row.value,
+                sortable: true,
+              },
+              {
+                name: 'Failed Attempts',
+                selector: (row: LoginAttempt) => row.failedCount,
+                sortable: true,
+              },
+              {
+                name: 'Locked Until',
+                selector: (row: LoginAttempt) => new Date(row.lockedUntil!).toLocaleString(),
+                sortable: true,
+              },
+              {
+                name: 'Action',
+                cell: (row: LoginAttempt) => (
+                  <button
+                    onClick={() => handleUnlock(row)}
+                    className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded-lg transition-colors"
+                  >
+                    <FontAwesomeIcon icon={faUnlock} className="mr-2" /> Unlock
+                  </button>
+                ),
+              },
+            ]}
+            data={lockedAccounts}
+            responsive
+            highlightOnHover
+            customStyles={customStyles}
+          />
+        </div>
+      )}
+
+      {/* Impersonation Log Section (admin only) */}
+      {canAuditLogins && impersonationLogs.length > 0 && (
+        <div className="bg-white rounded-xl p-6 shadow-lg">
+          <h3 className="text-xl font-semibold text-primary mb-4">View As Log</h3>
+          <DataTable
+            columns={[
+              {
+                name: 'Admin',
+                selector: (row: ImpersonationLog) => users.find((u) => u.id === row.adminId)?.username ?? row.adminId,
+                sortable: true,
+              },
+              {
+                name: 'Viewed As',
+                selector: (row: ImpersonationLog) =>
+                  `${row.targetUsername} (${getRoleLabel(permissions, row.targetRole)})`,
+                sortable: true,
+              },
+              {
+                name: 'Started',
+                selector: (row: ImpersonationLog) => new Date(row.startedAt).toLocaleString(),
+                sortable: true,
+              },
+              {
+                name: 'Ended',
+                selector: (row: ImpersonationLog) => (row.endedAt ? new Date(row.endedAt).toLocaleString() : 'In progress'),
+                sortable: true,
+              },
+            ]}
+            data={impersonationLogs}
+            pagination
+            responsive
+            highlightOnHover
+            customStyles={customStyles}
+          />
+        </div>
+      )}
+
       {/* Data Table Section */}
       <div className="bg-white rounded-xl p-6 shadow-lg">
         <DataTable
@@ -593,13 +913,13 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
                 >
                   {getEligibleRoles().map((r) => (
                     <option key={r} value={r}>
-                      {ROLE_NAMES[r as Role]}
+                      {getRoleLabel(permissions, r)}
                     </option>
                   ))}
                 </select>
-                {(editUser.role === 'dept_head' || editUser.role === 'teacher') && (
+                {isDepartmentScoped(permissions, editUser.role) && (
                   <>
-                    {currentUserRole === 'dept_head' ? (
+                    {isDepartmentScoped(permissions, currentUserRole) ? (
                       <select
                         value={currentUserDepartment}
                         disabled
@@ -627,6 +947,19 @@ export default function UserManagement({ currentUserRole, currentUserDepartment
                     )}
                   </>
                 )}
+                {editUser.role === 'teacher' && (
+                  <select
+                    value={editUser.employmentType ?? 'full_time'}
+                    onChange={(e) => handleEditUserChange('employmentType', e.target.value)}
+                    className="w-full p-3 border rounded-lg"
+                  >
+                    {(Object.keys(EMPLOYMENT_TYPE_LABELS) as EmploymentType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {EMPLOYMENT_TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                )}
               </div>
               <div className="flex justify-end mt-6 gap-4">
                 <button
@@ -0,0 +1,11 @@
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { useCollection } from '@/hooks/useCollection';
+import { AcademicTerm, getCurrentTerm, sortTerms } from '@/utils/academicTerms';
+
+const toTerms = (docs: QueryDocumentSnapshot[]) => sortTerms(docs.map((d) => ({ ...d.data(), id: d.id } as AcademicTerm)));
+
+// Live list of academic terms (newest first) and the id of the current one
+export function useAcademicTerms() {
+  const { items: terms, loading } = useCollection('academicTerms', toTerms);
+  return { terms, currentTermId: getCurrentTerm(terms)?.id ?? '', loading };
+}
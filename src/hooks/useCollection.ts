@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { collection, onSnapshot, QueryDocumentSnapshot } from 'firebase/firestore';
+import { db } from '@/utils/firebase';
+
+/**
+ * Live contents of a top-level collection. `map` turns the documents into the list to return
+ * (and may sort it); define it outside the component so it stays the same between renders.
+ */
+export function useCollection<T>(name: string, map: (docs: QueryDocumentSnapshot[]) => T[]) {
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      collection(db, name),
+      (snapshot) => {
+        setItems(map(snapshot.docs));
+        setLoading(false);
+      },
+      (error) => {
+        console.error(`Failed to load ${name}`, error);
+        setLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, [name, map]);
+
+  return { items, loading };
+}
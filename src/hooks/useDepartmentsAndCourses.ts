@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/utils/firebase';
+import { Course, Department } from '@/utils/departments';
+
+/**
+ * Every department and the courses of each, read once on mount. Courses are subcollections, so
+ * unlike useCollection this isn't a live listener.
+ */
+export function useDepartmentsAndCourses() {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchDepartmentsAndCourses = async () => {
+      try {
+        const deptSnapshot = await getDocs(collection(db, 'departments'));
+        const depts = deptSnapshot.docs.map((d) => ({ ...d.data(), id: d.id } as Department));
+        const coursesPerDept = await Promise.all(
+          depts.map(async (dept) => {
+            const coursesSnapshot = await getDocs(collection(db, `departments/${dept.id}/courses`));
+            return coursesSnapshot.docs.map((d) => ({ ...d.data(), id: d.id, departmentId: dept.id } as Course));
+          })
+        );
+        setDepartments(depts);
+        setCourses(coursesPerDept.flat());
+      } catch (error) {
+        console.error('Failed to load departments and courses', error);
+      }
+      setLoading(false);
+    };
+    fetchDepartmentsAndCourses();
+  }, []);
+
+  return { departments, courses, loading };
+}
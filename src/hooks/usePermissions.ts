@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { db } from '@/utils/firebase';
+import { mergePermissions, PermissionMatrix, ROLES } from '@/utils/roles';
+
+// Live permission matrix; starts from the ROLES defaults until Firestore answers
+export function usePermissions() {
+  const [permissions, setPermissions] = useState<PermissionMatrix>(ROLES);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      collection(db, 'rolePermissions'),
+      (snapshot) => {
+        setPermissions(mergePermissions(Object.fromEntries(snapshot.docs.map((d) => [d.id, d.data()]))));
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Failed to load permissions', error);
+        setLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, []);
+
+  return { permissions, loading };
+}
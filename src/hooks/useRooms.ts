@@ -0,0 +1,14 @@
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { useCollection } from '@/hooks/useCollection';
+import { Room } from '@/utils/rooms';
+
+const toRooms = (docs: QueryDocumentSnapshot[]) =>
+  docs
+    .map((d) => ({ ...d.data(), id: d.id } as Room))
+    .sort((a, b) => a.building.localeCompare(b.building) || a.code.localeCompare(b.code));
+
+// Live room list, sorted by building then code
+export function useRooms() {
+  const { items: rooms, loading } = useCollection('rooms', toRooms);
+  return { rooms, loading };
+}
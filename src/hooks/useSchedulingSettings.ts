@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '@/utils/firebase';
+import { DEFAULT_SCHEDULING_SETTINGS, SchedulingSettings } from '@/utils/schedulingSettings';
+
+// Live scheduling rules, with defaults for anything not set yet
+export function useSchedulingSettings() {
+  const [settings, setSettings] = useState<SchedulingSettings>(DEFAULT_SCHEDULING_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      doc(db, 'settings', 'scheduling'),
+      (snapshot) => {
+        const data = snapshot.data() ?? {};
+        setSettings({
+          ...DEFAULT_SCHEDULING_SETTINGS,
+          ...data,
+          maxLoad: { ...DEFAULT_SCHEDULING_SETTINGS.maxLoad, ...data.maxLoad },
+        });
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Failed to load scheduling settings', error);
+        setLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, []);
+
+  return { settings, loading };
+}
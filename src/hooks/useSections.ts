@@ -0,0 +1,11 @@
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { useCollection } from '@/hooks/useCollection';
+import { Section, sortSections } from '@/utils/sections';
+
+const toSections = (docs: QueryDocumentSnapshot[]) => sortSections(docs.map((d) => ({ ...d.data(), id: d.id } as Section)));
+
+// Live list of student sections, sorted by course, year level and block
+export function useSections() {
+  const { items: sections, loading } = useCollection('sections', toSections);
+  return { sections, loading };
+}
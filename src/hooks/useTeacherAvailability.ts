@@ -0,0 +1,12 @@
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { useCollection } from '@/hooks/useCollection';
+import { TeacherAvailability } from '@/utils/teacherAvailability';
+
+const toAvailabilities = (docs: QueryDocumentSnapshot[]) =>
+  docs.map((d) => ({ ...d.data(), teacherId: d.id } as TeacherAvailability));
+
+// Live availability grids for every teacher who has saved one
+export function useTeacherAvailability() {
+  const { items: availabilities, loading } = useCollection('teacherAvailability', toAvailabilities);
+  return { availabilities, loading };
+}
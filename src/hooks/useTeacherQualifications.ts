@@ -0,0 +1,12 @@
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { useCollection } from '@/hooks/useCollection';
+import { TeacherQualification } from '@/utils/qualifications';
+
+const toQualifications = (docs: QueryDocumentSnapshot[]) =>
+  docs.map((d) => ({ ...d.data(), id: d.id } as TeacherQualification));
+
+// Live list of teacher-subject qualifications
+export function useTeacherQualifications() {
+  const { items: qualifications, loading } = useCollection('teacherQualifications', toQualifications);
+  return { qualifications, loading };
+}
@@ -1,26 +1,59 @@
 import { useState, useEffect } from 'react';
+import { signInWithCustomToken } from 'firebase/auth';
+import { auth } from '@/utils/firebase';
 import { Role } from '@/utils/roles';
 
+// Sign the Firebase client SDK in with the session's role claims so firestore.rules can authorize it
+const signInToFirebase = async () => {
+  const res = await fetch('/api/auth/firebase-token', { cache: 'no-store' });
+  if (!res.ok) return;
+  const { token } = await res.json();
+  await signInWithCustomToken(auth, token);
+};
+
 export function useUserRole() {
   const [role, setRole] = useState<Role | null>(null);
   const [departmentId, setDepartmentId] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState(false);
+  // Set while an admin is viewing the dashboard as this user
+  const [impersonating, setImpersonating] = useState<{ username: string } | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const storedUser = localStorage.getItem('user');
-    if (storedUser) {
-      const parsedUser = JSON.parse(storedUser);
-      setRole(parsedUser.role);
-      setDepartmentId(parsedUser.departmentId);
-      setUserId(parsedUser.userId);
-    } else {
-      setRole(null);
-      setDepartmentId(null);
-      setUserId(null);
-    }
-    setLoading(false);
+    // The session lives in an HTTP-only cookie, so ask the server who we are
+    const fetchSession = async () => {
+      try {
+        const res = await fetch('/api/auth/session', { cache: 'no-store' });
+        const { user } = res.ok ? await res.json() : { user: null };
+        setRole(user?.role ?? null);
+        setDepartmentId(user?.departmentId ?? null);
+        setUserId(user?.userId ?? null);
+        setTwoFactorSetupRequired(!!user?.twoFactorSetupRequired);
+        setImpersonating(user?.impersonating ?? null);
+        if (user && !user.twoFactorSetupRequired) await signInToFirebase();
+      } catch (error) {
+        console.error('Failed to load session', error);
+        setRole(null);
+        setDepartmentId(null);
+        setUserId(null);
+      }
+      setLoading(false);
+    };
+    fetchSession();
   }, []);
 
-  return { role, departmentId, userId, loading };
+  return {
+    role,
+    departmentId,
+    userId,
+    twoFactorSetupRequired,
+    impersonating,
+    // Called once enrollment succeeds (the server has re-issued the session)
+    clearTwoFactorSetupRequired: () => {
+      setTwoFactorSetupRequired(false);
+      signInToFirebase().catch((error) => console.error('Failed to sign in to Firebase', error));
+    },
+    loading,
+  };
 }
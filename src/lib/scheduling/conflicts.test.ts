@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findConflicts,
+  getOverlap,
+  hasConflicts,
+  isValidTimeRange,
+  normalizeRoomName,
+  ScheduleSlot,
+  toMinuteRange,
+  UnavailableBlock,
+} from './conflicts';
+
+const slot = (overrides: Partial<ScheduleSlot> = {}): ScheduleSlot => ({
+  id: 'existing',
+  teacherId: 'teacher-1',
+  room: '101',
+  sectionId: 'section-1',
+  days: ['Monday'],
+  startTime: '08:00',
+  endTime: '09:00',
+  ...overrides,
+});
+
+// A candidate that shares nothing with slot() except what the test sets
+const candidate = (overrides: Partial<ScheduleSlot> = {}): ScheduleSlot => ({
+  teacherId: 'teacher-2',
+  room: '202',
+  sectionId: 'section-2',
+  days: ['Monday'],
+  startTime: '08:00',
+  endTime: '09:00',
+  ...overrides,
+});
+
+describe('toMinuteRange', () => {
+  it('converts times to minutes since midnight', () => {
+    expect(toMinuteRange('08:30', '10:15')).toEqual([510, 615]);
+  });
+
+  it('treats a 00:00 end as midnight at the end of the day', () => {
+    expect(toMinuteRange('22:00', '00:00')).toEqual([1320, 1440]);
+    expect(toMinuteRange('22:00', '24:00')).toEqual([1320, 1440]);
+    expect(isValidTimeRange('22:00', '00:00')).toBe(true);
+  });
+
+  it('rejects ranges that end before they start', () => {
+    expect(isValidTimeRange('10:00', '09:00')).toBe(false);
+    expect(isValidTimeRange('10:00', '10:00')).toBe(false);
+  });
+});
+
+describe('getOverlap', () => {
+  it('returns the shared window', () => {
+    expect(getOverlap([480, 600], [540, 660])).toEqual([540, 600]);
+  });
+
+  it('returns null when the ranges only touch', () => {
+    expect(getOverlap([480, 540], [540, 600])).toBeNull();
+  });
+});
+
+describe('normalizeRoomName', () => {
+  it('ignores case, spacing and a Rm/Room prefix', () => {
+    expect(normalizeRoomName(' rm 101 ')).toBe('101');
+    expect(normalizeRoomName('Room101')).toBe('101');
+    expect(normalizeRoomName('RM. 101')).toBe('101');
+    expect(normalizeRoomName('Lab  2')).toBe('LAB 2');
+  });
+
+  it('keeps names that only start with the letters of the prefix', () => {
+    expect(normalizeRoomName('Roomba Hall')).toBe('ROOMBA HALL');
+  });
+});
+
+describe('findConflicts', () => {
+  it('does not flag back-to-back classes', () => {
+    const existing = [slot({ teacherId: 'teacher-2' })];
+    expect(findConflicts(candidate({ startTime: '09:00', endTime: '10:00' }), existing)).toEqual([]);
+    expect(findConflicts(candidate({ startTime: '07:00', endTime: '08:00' }), existing)).toEqual([]);
+  });
+
+  it('reports a teacher clash with the overlap window', () => {
+    const existing = [slot({ teacherId: 'teacher-2' })];
+    expect(findConflicts(candidate({ startTime: '08:30', endTime: '10:00' }), existing)).toEqual([
+      { type: 'teacher', schedule: existing[0], day: 'Monday', overlapStart: '08:30', overlapEnd: '09:00' },
+    ]);
+  });
+
+  it('only checks days both entries meet on', () => {
+    const existing = [slot({ teacherId: 'teacher-2', days: ['Monday', 'Wednesday'] })];
+    const conflicts = findConflicts(candidate({ days: ['Wednesday', 'Friday'] }), existing);
+    expect(conflicts.map((c) => c.day)).toEqual(['Wednesday']);
+  });
+
+  it('handles a class ending at midnight', () => {
+    const existing = [slot({ teacherId: 'teacher-2', startTime: '23:00', endTime: '00:00' })];
+    const conflicts = findConflicts(candidate({ startTime: '23:30', endTime: '24:00' }), existing);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ overlapStart: '23:30', overlapEnd: '24:00' });
+    // The hour before it is still free
+    expect(findConflicts(candidate({ startTime: '22:00', endTime: '23:00' }), existing)).toEqual([]);
+  });
+
+  it('skips the entry being edited', () => {
+    const existing = [slot({ id: 'editing', teacherId: 'teacher-2' })];
+    expect(findConflicts(candidate(), existing, { ignoreId: 'editing' })).toEqual([]);
+    expect(findConflicts(candidate(), existing, { ignoreId: 'other' })).toHaveLength(1);
+  });
+
+  it('matches rooms regardless of the Rm prefix', () => {
+    const existing = [slot({ room: 'Rm 101' })];
+    const conflicts = findConflicts(candidate({ room: '101' }), existing);
+    expect(conflicts.map((c) => c.type)).toEqual(['room']);
+  });
+
+  it('reports section clashes', () => {
+    const existing = [slot({ sectionId: 'section-2' })];
+    expect(findConflicts(candidate(), existing).map((c) => c.type)).toEqual(['section']);
+    // Older entries without a section never clash on it
+    expect(findConflicts(candidate({ sectionId: undefined }), [slot({ sectionId: undefined })])).toEqual([]);
+  });
+
+  it('reports one conflict per clashing type', () => {
+    const existing = [slot()];
+    const conflicts = findConflicts(candidate({ teacherId: 'teacher-1', room: 'RM 101', sectionId: 'section-1' }), existing);
+    expect(conflicts.map((c) => c.type)).toEqual(['teacher', 'room', 'section']);
+  });
+
+  it('limits the check to the requested types', () => {
+    const existing = [slot()];
+    const conflicts = findConflicts(candidate({ teacherId: 'teacher-1', room: '101' }), existing, { types: ['room'] });
+    expect(conflicts.map((c) => c.type)).toEqual(['room']);
+  });
+
+  describe('unavailable times', () => {
+    const unavailable: UnavailableBlock[] = [
+      { teacherId: 'teacher-2', day: 'Monday', startTime: '07:00', endTime: '08:30' },
+      { teacherId: 'teacher-3', day: 'Monday', startTime: '08:00', endTime: '12:00' },
+    ];
+
+    it("reports the part of the class inside the teacher's unavailable block", () => {
+      expect(findConflicts(candidate(), [], { unavailable })).toEqual([
+        { type: 'unavailable', block: unavailable[0], day: 'Monday', overlapStart: '08:00', overlapEnd: '08:30' },
+      ]);
+    });
+
+    it('ignores other teachers, other days and touching blocks', () => {
+      expect(findConflicts(candidate({ days: ['Tuesday'] }), [], { unavailable })).toEqual([]);
+      expect(findConflicts(candidate({ startTime: '08:30', endTime: '09:30' }), [], { unavailable })).toEqual([]);
+    });
+
+    it('is only checked when blocks are given and the type is requested', () => {
+      expect(hasConflicts(candidate(), [])).toBe(false);
+      expect(hasConflicts(candidate(), [], { unavailable, types: ['teacher'] })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/*
+ * Schedule conflict engine.
+ *
+ * Pure functions only (no Firestore or React) so every create/edit path - the schedule form,
+ * the edit modal, change request review and teacher proposals - applies the same rules.
+ * Times are "HH:mm" strings; an end time of "00:00" or "24:00" means midnight at the end of the day.
+ */
+
+export type ConflictType = 'teacher' | 'room' | 'section' | 'unavailable';
+
+// The fields the engine needs from a schedule entry
+export interface ScheduleSlot {
+  id?: string;
+  teacherId: string;
+  room: string;
+  sectionId?: string;
+  days: string[];
+  startTime: string;
+  endTime: string;
+}
+
+// Time a teacher has marked as unavailable, e.g. a part-timer's hours at another job
+export interface UnavailableBlock {
+  teacherId: string;
+  day: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface ConflictWindow {
+  day: string;
+  overlapStart: string;
+  overlapEnd: string;
+}
+
+export type ScheduleConflict<T extends ScheduleSlot = ScheduleSlot> =
+  | (ConflictWindow & {
+      type: 'teacher' | 'room' | 'section';
+      schedule: T; // The existing entry that clashes with the candidate
+    })
+  | (ConflictWindow & {
+      type: 'unavailable';
+      schedule?: undefined;
+      block: UnavailableBlock; // The teacher's unavailable time the candidate falls into
+    });
+
+export interface ConflictOptions {
+  ignoreId?: string; // The entry being edited, which must not conflict with itself
+  types?: ConflictType[]; // Defaults to every type
+  unavailable?: UnavailableBlock[]; // Teachers' unavailable times; checked only when given
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const ALL_TYPES: ConflictType[] = ['teacher', 'room', 'section', 'unavailable'];
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (minutes: number): string => {
+  const clamped = Math.max(0, Math.min(minutes, MINUTES_PER_DAY));
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+};
+
+// Start/end in minutes since midnight, treating a midnight end as the end of the day
+export const toMinuteRange = (startTime: string, endTime: string): [number, number] => {
+  const start = timeToMinutes(startTime);
+  const end = timeToMinutes(endTime);
+  return [start, end === 0 && start > 0 ? MINUTES_PER_DAY : end];
+};
+
+export const isValidTimeRange = (startTime: string, endTime: string): boolean => {
+  const [start, end] = toMinuteRange(startTime, endTime);
+  return start < end;
+};
+
+// Overlap of two [start, end) ranges, or null when they only touch (back-to-back classes are fine)
+export const getOverlap = (a: [number, number], b: [number, number]): [number, number] | null => {
+  const start = Math.max(a[0], b[0]);
+  const end = Math.min(a[1], b[1]);
+  return start < end ? [start, end] : null;
+};
+
+// "Rm 101", "room 101" and "101" name the same room in older free-text entries
+export const normalizeRoomName = (room: string): string =>
+  room
+    .trim()
+    .toUpperCase()
+    .replace(/^(ROOM|RM)\.?\s*(?=\d)/, '')
+    .replace(/\s+/g, ' ');
+
+const clashes = (type: Exclude<ConflictType, 'unavailable'>, candidate: ScheduleSlot, existing: ScheduleSlot): boolean => {
+  switch (type) {
+    case 'teacher':
+      return !!candidate.teacherId && candidate.teacherId === existing.teacherId;
+    case 'room':
+      return !!candidate.room && normalizeRoomName(candidate.room) === normalizeRoomName(existing.room);
+    case 'section':
+      return !!candidate.sectionId && candidate.sectionId === existing.sectionId;
+  }
+};
+
+// Every clash the candidate would cause, one entry per type, schedule (or unavailable block) and day
+export const findConflicts = <T extends ScheduleSlot>(
+  candidate: ScheduleSlot,
+  existing: T[],
+  options: ConflictOptions = {}
+): ScheduleConflict<T>[] => {
+  const types = options.types ?? ALL_TYPES;
+  const candidateRange = toMinuteRange(candidate.startTime, candidate.endTime);
+  const conflicts: ScheduleConflict<T>[] = [];
+
+  for (const schedule of existing) {
+    if (options.ignoreId && schedule.id === options.ignoreId) continue;
+    const overlap = getOverlap(candidateRange, toMinuteRange(schedule.startTime, schedule.endTime));
+    if (!overlap) continue;
+
+    for (const day of candidate.days.filter((d) => schedule.days.includes(d))) {
+      for (const type of types) {
+        if (type === 'unavailable' || !clashes(type, candidate, schedule)) continue;
+        conflicts.push({
+          type,
+          schedule,
+          day,
+          overlapStart: minutesToTime(overlap[0]),
+          overlapEnd: minutesToTime(overlap[1]),
+        });
+      }
+    }
+  }
+
+  if (types.includes('unavailable') && candidate.teacherId) {
+    for (const block of options.unavailable ?? []) {
+      if (block.teacherId !== candidate.teacherId || !candidate.days.includes(block.day)) continue;
+      const overlap = getOverlap(candidateRange, toMinuteRange(block.startTime, block.endTime));
+      if (!overlap) continue;
+      conflicts.push({
+        type: 'unavailable',
+        block,
+        day: block.day,
+        overlapStart: minutesToTime(overlap[0]),
+        overlapEnd: minutesToTime(overlap[1]),
+      });
+    }
+  }
+  return conflicts;
+};
+
+export const hasConflicts = (candidate: ScheduleSlot, existing: ScheduleSlot[], options?: ConflictOptions) =>
+  findConflicts(candidate, existing, options).length > 0;
+
+const CONFLICT_LABELS: Record<ConflictType, string> = {
+  teacher: 'Teacher',
+  room: 'Room',
+  section: 'Section',
+  unavailable: 'Availability',
+};
+
+// e.g. "Room conflict on Monday 08:30-09:00 (Mathematics)"
+export const describeConflict = (conflict: ScheduleConflict, label?: string): string =>
+  `${CONFLICT_LABELS[conflict.type]} conflict on ${conflict.day} ${conflict.overlapStart}-${conflict.overlapEnd}` +
+  (label ? ` (${label})` : '');
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { generateTimetable, GeneratorInput, getOfferingProblem, Offering } from './generator';
+
+const offering = (overrides: Partial<Offering> = {}): Offering => ({
+  subjectId: 'subject-1',
+  teacherId: 'teacher-1',
+  sectionId: 'section-1',
+  meetingsPerWeek: 2,
+  durationMinutes: 90,
+  ...overrides,
+});
+
+const input = (overrides: Partial<GeneratorInput> = {}): GeneratorInput => ({
+  offerings: [offering()],
+  rooms: ['101'],
+  existing: [],
+  constraints: { days: ['Monday', 'Tuesday', 'Wednesday'], dayStart: '08:00', dayEnd: '12:00' },
+  ...overrides,
+});
+
+describe('getOfferingProblem', () => {
+  it('accepts whole meetings and a positive duration', () => {
+    expect(getOfferingProblem(offering())).toBeNull();
+  });
+
+  it.each([0, -1, 1.5, NaN])('rejects %s meetings per week', (meetingsPerWeek) => {
+    expect(getOfferingProblem(offering({ meetingsPerWeek }))).not.toBeNull();
+  });
+
+  it.each([0, -30, NaN, Infinity])('rejects %s minutes per meeting', (durationMinutes) => {
+    expect(getOfferingProblem(offering({ durationMinutes }))).not.toBeNull();
+  });
+
+  it('ignores the pattern of a fixed schedule', () => {
+    const fixedSchedule = { days: ['Monday'], startTime: '08:00', endTime: '09:00' };
+    expect(getOfferingProblem(offering({ meetingsPerWeek: 0, fixedSchedule }))).toBeNull();
+  });
+});
+
+describe('generateTimetable', () => {
+  it('places an offering on its preferred days', () => {
+    const result = generateTimetable(input());
+    expect(result.unplaced).toEqual([]);
+    expect(result.entries).toEqual([
+      expect.objectContaining({ days: ['Monday', 'Tuesday'], startTime: '08:00', endTime: '09:30', room: '101' }),
+    ]);
+  });
+
+  it('keeps a fixed schedule and places other offerings around it', () => {
+    const fixedSchedule = { days: ['Monday', 'Wednesday'], startTime: '08:00', endTime: '09:30' };
+    const result = generateTimetable(
+      input({ offerings: [offering(), offering({ subjectId: 'subject-2', sectionId: 'section-2', fixedSchedule })] })
+    );
+    expect(result.unplaced).toEqual([]);
+    expect(result.entries).toContainEqual(
+      expect.objectContaining({ subjectId: 'subject-2', days: ['Monday', 'Wednesday'], startTime: '08:00', endTime: '09:30' })
+    );
+    expect(result.entries).toContainEqual(
+      expect.objectContaining({ subjectId: 'subject-1', days: ['Monday', 'Tuesday'], startTime: '09:30', endTime: '11:00' })
+    );
+  });
+
+  it('leaves a fixed schedule unplaced when its time is taken', () => {
+    const fixedSchedule = { days: ['Monday'], startTime: '08:00', endTime: '09:00' };
+    const existing = [{ id: 'existing', teacherId: 'teacher-1', room: '202', days: ['Monday'], startTime: '08:30', endTime: '09:30' }];
+    const result = generateTimetable(input({ offerings: [offering({ fixedSchedule })], existing }));
+    expect(result.entries).toEqual([]);
+    expect(result.unplaced[0].reason).toBe('The teacher is already booked at every possible time');
+  });
+
+  it("respects the teacher's maximum minutes per day, counting existing entries", () => {
+    const existing = [{ id: 'existing', teacherId: 'teacher-1', room: '202', days: ['Monday'], startTime: '08:00', endTime: '10:00' }];
+    const result = generateTimetable(
+      input({
+        offerings: [offering({ meetingsPerWeek: 1, durationMinutes: 120 })],
+        existing,
+        constraints: { days: ['Monday', 'Tuesday'], dayStart: '08:00', dayEnd: '12:00', maxMinutesPerDay: 180 },
+      })
+    );
+    expect(result.entries).toEqual([expect.objectContaining({ days: ['Tuesday'], startTime: '08:00' })]);
+  });
+
+  it('reports the daily limit when no day has room under it', () => {
+    const result = generateTimetable(
+      input({
+        offerings: [offering({ meetingsPerWeek: 1, durationMinutes: 120 })],
+        constraints: { days: ['Monday'], dayStart: '08:00', dayEnd: '12:00', maxMinutesPerDay: 90 },
+      })
+    );
+    expect(result.entries).toEqual([]);
+    expect(result.unplaced[0].reason).toBe("Any placement would exceed the teacher's maximum hours per day");
+  });
+
+  it('leaves invalid offerings unplaced instead of emitting empty entries', () => {
+    const result = generateTimetable(
+      input({ offerings: [offering({ meetingsPerWeek: 0 }), offering({ subjectId: 'subject-2', durationMinutes: 0 })] })
+    );
+    expect(result.entries).toEqual([]);
+    expect(result.unplaced.map((u) => u.reason)).toEqual([
+      'Meetings per week must be a whole number of at least 1',
+      'Minutes per meeting must be more than 0',
+    ]);
+  });
+
+  it('only books rooms within their available hours', () => {
+    const result = generateTimetable(
+      input({ rooms: ['101', '202'], roomHours: { '101': { availableFrom: '10:00', availableTo: '12:00' } } })
+    );
+    expect(result.entries).toEqual([expect.objectContaining({ room: '202', startTime: '08:00' })]);
+  });
+
+  it('leaves an offering unplaced when no room is open long enough', () => {
+    const result = generateTimetable(input({ roomHours: { '101': { availableFrom: '08:00', availableTo: '09:00' } } }));
+    expect(result.entries).toEqual([]);
+    expect(result.unplaced).toHaveLength(1);
+  });
+
+  it.each([0, -30, NaN])('refuses a step of %s minutes', (stepMinutes) => {
+    expect(() =>
+      generateTimetable(input({ constraints: { days: ['Monday'], dayStart: '08:00', dayEnd: '12:00', stepMinutes } }))
+    ).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,297 @@
+import { findConflicts, minutesToTime, normalizeRoomName, ScheduleSlot, toMinuteRange, UnavailableBlock } from './conflicts';
+import { SCHOOL_DAY_END, SCHOOL_DAY_START, SLOT_STEP_MINUTES } from './slots';
+
+/*
+ * Timetable generator: a small branch-and-bound search over (days, start time, room) choices.
+ * It runs in the browser with no external solver and uses the conflict engine for every
+ * teacher/room/section check, so generated entries obey exactly the rules the forms enforce.
+ */
+
+// One subject to place this term, with the teacher assigned to it
+export interface Offering {
+  subjectId: string;
+  teacherId: string;
+  sectionId?: string;
+  rooms?: string[]; // Rooms this offering may use, e.g. those big enough for its section; defaults to all
+  meetingsPerWeek: number; // Days per week; every meeting uses the same time and room
+  durationMinutes: number; // Length of each meeting
+  fixedSchedule?: { days: string[]; startTime: string; endTime: string };
+}
+
+export interface GeneratorConstraints {
+  days: string[]; // Teaching days, in order of preference
+  dayStart?: string;
+  dayEnd?: string;
+  maxMinutesPerDay?: number; // Per teacher, counting entries that already exist
+  stepMinutes?: number;
+}
+
+export interface GeneratorInput {
+  offerings: Offering[];
+  rooms: string[];
+  roomHours?: Record<string, { availableFrom: string; availableTo: string }>; // Rooms that can only be booked within these hours
+  existing: ScheduleSlot[]; // Entries already in the timetable, treated as fixed
+  unavailable?: UnavailableBlock[]; // Times teachers can't teach
+  constraints: GeneratorConstraints;
+}
+
+export interface GeneratedEntry extends ScheduleSlot {
+  subjectId: string;
+}
+
+export interface UnplacedOffering {
+  offering: Offering;
+  reason: string;
+}
+
+export interface GeneratorResult {
+  entries: GeneratedEntry[];
+  unplaced: UnplacedOffering[];
+  complete: boolean; // False when the search budget ran out before proving the result optimal
+}
+
+// Upper bounds on candidate checks and search time, so a hard term can't freeze the tab
+const SEARCH_BUDGET = 200000;
+const SEARCH_TIME_LIMIT_MS = 1000;
+
+// Why an offering's meeting pattern can't be scheduled, or null if it can. Fixed schedules bring their own pattern.
+export const getOfferingProblem = (offering: Pick<Offering, 'meetingsPerWeek' | 'durationMinutes' | 'fixedSchedule'>) => {
+  if (offering.fixedSchedule) return null;
+  if (!Number.isInteger(offering.meetingsPerWeek) || offering.meetingsPerWeek < 1) {
+    return 'Meetings per week must be a whole number of at least 1';
+  }
+  if (!Number.isFinite(offering.durationMinutes) || offering.durationMinutes <= 0) {
+    return 'Minutes per meeting must be more than 0';
+  }
+  return null;
+};
+
+// Entries grouped by teacher, room and section per day, with their times and keys worked out once per entry,
+// so a check only looks at the entries it could clash with
+const createSlotIndex = (entries: ScheduleSlot[]) => {
+  const buckets = new Map<string, { entry: ScheduleSlot; start: number; end: number }[]>();
+  const parsed = new WeakMap<ScheduleSlot, { start: number; end: number; keys: string[] }>();
+  const parse = (entry: ScheduleSlot) => {
+    let result = parsed.get(entry);
+    if (!result) {
+      const [start, end] = toMinuteRange(entry.startTime, entry.endTime);
+      const room = entry.room ? normalizeRoomName(entry.room) : '';
+      const keys = entry.days.flatMap((day) => [
+        ...(entry.teacherId ? [`teacher|${entry.teacherId}|${day}`] : []),
+        ...(room ? [`room|${room}|${day}`] : []),
+        ...(entry.sectionId ? [`section|${entry.sectionId}|${day}`] : []),
+      ]);
+      result = { start, end, keys };
+      parsed.set(entry, result);
+    }
+    return result;
+  };
+  const add = (entry: ScheduleSlot) => {
+    const { start, end, keys } = parse(entry);
+    for (const key of keys) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push({ entry, start, end });
+      else buckets.set(key, [{ entry, start, end }]);
+    }
+  };
+  // Entries are removed in the reverse order they were added, so each is the last of its buckets
+  const removeLast = (entry: ScheduleSlot) => {
+    for (const key of parse(entry).keys) buckets.get(key)?.pop();
+  };
+  // Entries sharing the candidate's teacher, room or section on one of its days and overlapping its time, each once
+  const related = (candidate: ScheduleSlot) => {
+    const { start, end, keys } = parse(candidate);
+    const found = new Set<ScheduleSlot>();
+    for (const key of keys) {
+      for (const item of buckets.get(key) ?? []) {
+        if (item.start < end && start < item.end) found.add(item.entry);
+      }
+    }
+    return Array.from(found);
+  };
+  const teacherMinutesOn = (teacherId: string, day: string) =>
+    (buckets.get(`teacher|${teacherId}|${day}`) ?? []).reduce((total, item) => total + item.end - item.start, 0);
+  entries.forEach(add);
+  return { add, removeLast, related, range: parse, teacherMinutesOn };
+};
+
+// Every way of picking `size` days, keeping the preference order
+const dayCombinations = (days: string[], size: number): string[][] => {
+  if (size <= 0) return [[]];
+  if (days.length < size) return [];
+  const [first, ...rest] = days;
+  return [...dayCombinations(rest, size - 1).map((combo) => [first, ...combo]), ...dayCombinations(rest, size)];
+};
+
+type Rejection = 'hours' | 'unavailable' | 'teacher' | 'room' | 'section' | 'load';
+
+const REJECTION_REASONS: Record<Rejection, string> = {
+  hours: "No meeting of this length fits within working hours and the rooms' available hours on the chosen days",
+  unavailable: 'The teacher is marked unavailable at every possible time',
+  teacher: 'The teacher is already booked at every possible time',
+  room: 'No room is free at any time the teacher is available',
+  section: 'The section already has a class at every possible time',
+  load: "Any placement would exceed the teacher's maximum hours per day",
+};
+
+export const generateTimetable = (input: GeneratorInput): GeneratorResult => {
+  const { offerings, rooms, roomHours, existing, unavailable, constraints } = input;
+  const [dayStart, dayEnd] = toMinuteRange(constraints.dayStart ?? SCHOOL_DAY_START, constraints.dayEnd ?? SCHOOL_DAY_END);
+  const step = constraints.stepMinutes ?? SLOT_STEP_MINUTES;
+  // A zero, negative or NaN step would never advance the start-time loop
+  if (!Number.isFinite(step) || step <= 0) {
+    throw new RangeError(`stepMinutes must be a positive number, got ${step}`);
+  }
+  const maxMinutes = constraints.maxMinutesPerDay;
+  const unavailableByTeacher = new Map<string, UnavailableBlock[]>();
+  for (const block of unavailable ?? []) {
+    unavailableByTeacher.set(block.teacherId, [...(unavailableByTeacher.get(block.teacherId) ?? []), block]);
+  }
+
+  const fitsRoomHours = (room: string, start: number, end: number) => {
+    const hours = roomHours?.[room];
+    if (!hours) return true;
+    const [from, to] = toMinuteRange(hours.availableFrom, hours.availableTo);
+    return start >= from && end <= to;
+  };
+
+  // Every (days, time, room) an offering could take on an empty timetable
+  const baseCandidates = (offering: Offering): GeneratedEntry[] => {
+    const base = {
+      subjectId: offering.subjectId,
+      teacherId: offering.teacherId,
+      ...(offering.sectionId ? { sectionId: offering.sectionId } : {}),
+    };
+    const offeringRooms = offering.rooms ?? rooms;
+    if (offering.fixedSchedule) {
+      const { days, startTime, endTime } = offering.fixedSchedule;
+      const [start, end] = toMinuteRange(startTime, endTime);
+      return offeringRooms
+        .filter((room) => fitsRoomHours(room, start, end))
+        .map((room) => ({ ...base, room, days, startTime, endTime }));
+    }
+    if (getOfferingProblem(offering)) return [];
+    const candidates: GeneratedEntry[] = [];
+    for (const days of dayCombinations(constraints.days, offering.meetingsPerWeek)) {
+      for (let start = dayStart; start + offering.durationMinutes <= dayEnd; start += step) {
+        for (const room of offeringRooms) {
+          if (!fitsRoomHours(room, start, start + offering.durationMinutes)) continue;
+          candidates.push({
+            ...base,
+            room,
+            days,
+            startTime: minutesToTime(start),
+            endTime: minutesToTime(start + offering.durationMinutes),
+          });
+        }
+      }
+    }
+    return candidates;
+  };
+
+  // Existing entries plus whatever the search has placed so far
+  const placed = createSlotIndex(existing);
+
+  // Why a candidate can't go into the current timetable, or null if it can
+  const rejectionFor = (candidate: GeneratedEntry): Rejection | null => {
+    const { start, end } = placed.range(candidate);
+    if (start < dayStart || end > dayEnd) return 'hours';
+    const related = placed.related(candidate);
+    const blocks = unavailableByTeacher.get(candidate.teacherId);
+    // Nothing overlaps, so there is nothing for the conflict engine to report
+    const conflicts = related.length === 0 && !blocks ? [] : findConflicts(candidate, related, { unavailable: blocks });
+    for (const type of ['unavailable', 'teacher', 'section', 'room'] as const) {
+      if (conflicts.some((c) => c.type === type)) return type;
+    }
+    if (maxMinutes && candidate.days.some((day) => placed.teacherMinutesOn(candidate.teacherId, day) + end - start > maxMinutes)) {
+      return 'load';
+    }
+    return null;
+  };
+
+  // Most constrained first: fixed schedules, then the offerings with the fewest options
+  const order = offerings
+    .map((offering) => ({ offering, candidates: baseCandidates(offering) }))
+    .sort(
+      (a, b) =>
+        Number(!!b.offering.fixedSchedule) - Number(!!a.offering.fixedSchedule) ||
+        a.candidates.length - b.candidates.length
+    );
+
+  const chosen: (GeneratedEntry | null)[] = new Array(order.length).fill(null);
+  let best: (GeneratedEntry | null)[] = [...chosen];
+  let bestCount = -1;
+  let checks = 0;
+  let stopped = false;
+  const deadline = Date.now() + SEARCH_TIME_LIMIT_MS;
+  // Reading the clock on every check would cost more than the check itself
+  const outOfBudget = () => {
+    if (!stopped && (checks >= SEARCH_BUDGET || (checks % 500 === 0 && Date.now() >= deadline))) stopped = true;
+    return stopped;
+  };
+
+  const search = (position: number, placedCount: number) => {
+    if (bestCount === order.length || outOfBudget()) return;
+    if (placedCount + (order.length - position) <= bestCount) return;
+    if (position === order.length) {
+      best = [...chosen];
+      bestCount = placedCount;
+      return;
+    }
+    for (const candidate of order[position].candidates) {
+      checks++;
+      if (outOfBudget()) return;
+      if (rejectionFor(candidate)) continue;
+      chosen[position] = candidate;
+      placed.add(candidate);
+      search(position + 1, placedCount + 1);
+      placed.removeLast(candidate);
+      chosen[position] = null;
+      if (bestCount === order.length || stopped) return;
+    }
+    // Leave this offering out and see whether the rest can still be placed
+    search(position + 1, placedCount);
+  };
+  search(0, 0);
+
+  // If the budget ran out mid-search, give anything left out one more greedy try
+  const entries = best.filter((entry): entry is GeneratedEntry => entry !== null);
+  entries.forEach(placed.add);
+  order.forEach(({ candidates }, position) => {
+    if (best[position]) return;
+    const fit = candidates.find((candidate) => !rejectionFor(candidate));
+    if (fit) {
+      best[position] = fit;
+      entries.push(fit);
+      placed.add(fit);
+    }
+  });
+  const unplaced = order
+    .filter((_, position) => !best[position])
+    .map(({ offering, candidates }) => {
+      if (candidates.length === 0) {
+        return {
+          offering,
+          reason:
+            getOfferingProblem(offering) ??
+            (rooms.length === 0
+              ? 'No rooms were provided'
+              : (offering.rooms ?? rooms).length === 0
+                ? 'None of the rooms can take this offering (e.g. the wrong type or too small for the section)'
+                : offering.meetingsPerWeek > constraints.days.length
+                ? 'More meetings per week than teaching days'
+                : REJECTION_REASONS.hours),
+        };
+      }
+      // Report the most common reason its candidates were rejected in the final timetable
+      const counts = new Map<Rejection, number>();
+      for (const candidate of candidates) {
+        const rejection = rejectionFor(candidate);
+        if (rejection) counts.set(rejection, (counts.get(rejection) ?? 0) + 1);
+      }
+      const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+      return { offering, reason: REJECTION_REASONS[top[0]] };
+    });
+
+  return { entries, unplaced, complete: !stopped };
+};
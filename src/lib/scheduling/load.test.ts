@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTeacherLoads, getOverloadReasons, LoadEntry, projectOverload, weeklyMinutes } from './load';
+
+const entry = (id: string, overrides: Partial<LoadEntry> = {}): LoadEntry => ({
+  id,
+  subjectId: 'math',
+  teacherId: 'teacher-1',
+  room: '101',
+  sectionId: 'section-1',
+  days: ['Monday', 'Wednesday'],
+  startTime: '08:00',
+  endTime: '09:30',
+  ...overrides,
+});
+
+const UNITS: Record<string, number> = { math: 3, science: 4 };
+const getUnits = (subjectId: string) => UNITS[subjectId] ?? 0;
+
+describe('weeklyMinutes', () => {
+  it('multiplies the length by the meeting days', () => {
+    expect(weeklyMinutes(entry('a'))).toBe(180);
+    expect(weeklyMinutes(entry('a', { days: [] }))).toBe(0);
+  });
+});
+
+describe('calculateTeacherLoads', () => {
+  it('totals contact minutes, units and classes per teacher', () => {
+    const loads = calculateTeacherLoads(
+      [
+        entry('a'),
+        entry('b', { subjectId: 'science', days: ['Friday'], startTime: '13:00', endTime: '16:00' }),
+        entry('c', { teacherId: 'teacher-2', days: ['Tuesday'] }),
+      ],
+      getUnits
+    );
+    expect(loads.get('teacher-1')).toEqual({ teacherId: 'teacher-1', contactMinutes: 360, units: 7, classes: 2 });
+    expect(loads.get('teacher-2')).toEqual({ teacherId: 'teacher-2', contactMinutes: 90, units: 3, classes: 1 });
+  });
+
+  it('counts the units of a class split into one entry per day once', () => {
+    const loads = calculateTeacherLoads(
+      [entry('a', { days: ['Monday'] }), entry('b', { days: ['Wednesday'] }), entry('c', { sectionId: 'section-2' })],
+      getUnits
+    );
+    expect(loads.get('teacher-1')).toEqual({ teacherId: 'teacher-1', contactMinutes: 360, units: 6, classes: 2 });
+  });
+
+  it('skips entries without a teacher', () => {
+    expect(calculateTeacherLoads([entry('a', { teacherId: '' })], getUnits).size).toBe(0);
+  });
+});
+
+describe('getOverloadReasons', () => {
+  const load = { teacherId: 'teacher-1', contactMinutes: 27 * 60 + 30, units: 25, classes: 8 };
+
+  it('reports every limit that is exceeded', () => {
+    expect(getOverloadReasons(load, { hours: 24, units: 24 })).toEqual([
+      '27.5 contact hours a week (max 24)',
+      '25 units (max 24)',
+    ]);
+  });
+
+  it('allows loads exactly at the limit', () => {
+    expect(getOverloadReasons({ ...load, contactMinutes: 24 * 60, units: 24 }, { hours: 24, units: 24 })).toEqual([]);
+  });
+
+  it('treats a zero limit as no limit', () => {
+    expect(getOverloadReasons(load, { hours: 0, units: 0 })).toEqual([]);
+    expect(getOverloadReasons(load, { hours: 0, units: 24 })).toEqual(['25 units (max 24)']);
+  });
+});
+
+describe('projectOverload', () => {
+  // teacher-1 already teaches 6 contact hours and 6 units
+  const existing = [
+    entry('a'),
+    entry('b', { sectionId: 'section-2', days: ['Tuesday', 'Thursday'] }),
+    entry('other', { teacherId: 'teacher-2', days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'] }),
+  ];
+
+  it('counts only the candidate teacher\'s entries', () => {
+    const candidate = entry('new', { id: undefined, sectionId: 'section-3', days: ['Friday'] });
+    expect(projectOverload(candidate, existing, getUnits, { hours: 8, units: 9 })).toEqual([]);
+  });
+
+  it('reports the load the candidate would push over the limit', () => {
+    const candidate = entry('new', { id: undefined, subjectId: 'science', days: ['Friday'], endTime: '11:00' });
+    expect(projectOverload(candidate, existing, getUnits, { hours: 8, units: 9 })).toEqual([
+      '9 contact hours a week (max 8)',
+      '10 units (max 9)',
+    ]);
+  });
+
+  it('replaces the entry being edited instead of adding to it', () => {
+    const edited = entry('b', { sectionId: 'section-2', days: ['Tuesday', 'Thursday', 'Friday'] });
+    expect(projectOverload(edited, existing, getUnits, { hours: 7.5, units: 0 })).toEqual([
+      '10.5 contact hours a week (max 7.5)',
+    ]);
+    expect(projectOverload(edited, existing, getUnits, { hours: 7.5, units: 0 }, 'b')).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { ScheduleSlot, toMinuteRange } from './conflicts';
+
+/*
+ * Teaching load: weekly contact hours and units per teacher, from their schedule entries.
+ * Pure like the rest of this folder; callers pass in the entries of one term and version.
+ */
+
+export interface LoadEntry extends ScheduleSlot {
+  subjectId: string;
+}
+
+export interface TeacherLoad {
+  teacherId: string;
+  contactMinutes: number; // Per week, across every meeting day
+  units: number;
+  classes: number; // Distinct subject/section pairs taught
+}
+
+export interface LoadLimit {
+  hours: number; // Weekly contact hours; 0 means no limit
+  units: number; // 0 means no limit
+}
+
+// Minutes per week an entry takes up: its length times the number of days it meets
+export const weeklyMinutes = (entry: ScheduleSlot): number => {
+  const [start, end] = toMinuteRange(entry.startTime, entry.endTime);
+  return Math.max(0, end - start) * entry.days.length;
+};
+
+/**
+ * Load per teacher. A class split into one entry per day still counts its units once, so units
+ * are summed per distinct subject and section.
+ */
+export const calculateTeacherLoads = (
+  entries: LoadEntry[],
+  getUnits: (subjectId: string) => number
+): Map<string, TeacherLoad> => {
+  const loads = new Map<string, TeacherLoad>();
+  const counted = new Set<string>();
+  for (const entry of entries) {
+    if (!entry.teacherId) continue;
+    const load = loads.get(entry.teacherId) ?? { teacherId: entry.teacherId, contactMinutes: 0, units: 0, classes: 0 };
+    load.contactMinutes += weeklyMinutes(entry);
+    const classKey = `${entry.teacherId}|${entry.subjectId}|${entry.sectionId ?? ''}`;
+    if (!counted.has(classKey)) {
+      counted.add(classKey);
+      load.units += getUnits(entry.subjectId);
+      load.classes++;
+    }
+    loads.set(entry.teacherId, load);
+  }
+  return loads;
+};
+
+// Ways a load goes over its limit, e.g. "27 contact hours a week (max 24)"
+export const getOverloadReasons = (load: TeacherLoad, limit: LoadLimit): string[] => {
+  const reasons: string[] = [];
+  const hours = load.contactMinutes / 60;
+  if (limit.hours > 0 && hours > limit.hours) {
+    reasons.push(`${+hours.toFixed(1)} contact hours a week (max ${limit.hours})`);
+  }
+  if (limit.units > 0 && load.units > limit.units) {
+    reasons.push(`${load.units} units (max ${limit.units})`);
+  }
+  return reasons;
+};
+
+/**
+ * Overload reasons the teacher would have after adding `candidate` (or replacing the entry with
+ * `ignoreId`), or [] if they stay within the limit.
+ */
+export const projectOverload = (
+  candidate: LoadEntry,
+  existing: LoadEntry[],
+  getUnits: (subjectId: string) => number,
+  limit: LoadLimit,
+  ignoreId?: string
+): string[] => {
+  const teacherEntries = existing.filter((e) => e.teacherId === candidate.teacherId && (!ignoreId || e.id !== ignoreId));
+  const load = calculateTeacherLoads([...teacherEntries, candidate], getUnits).get(candidate.teacherId);
+  return load ? getOverloadReasons(load, limit) : [];
+};
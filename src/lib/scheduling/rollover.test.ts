@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { planRollover, RolloverOptions } from './rollover';
+
+const entry = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  subjectId: `subject-${id}`,
+  teacherId: 'teacher-1',
+  room: '101',
+  sectionId: `section-${id}`,
+  days: ['Monday'],
+  startTime: '08:00',
+  endTime: '09:00',
+  ...overrides,
+});
+
+type Entry = ReturnType<typeof entry>;
+
+const options = (overrides: Partial<RolloverOptions<Entry>> = {}): RolloverOptions<Entry> => ({
+  activeTeacherIds: ['teacher-1', 'teacher-2'],
+  teacherMap: {},
+  isSubjectAvailable: () => true,
+  ...overrides,
+});
+
+describe('planRollover', () => {
+  it('carries entries over unchanged', () => {
+    const plan = planRollover([entry('a'), entry('b', { startTime: '09:00', endTime: '10:00' })], options());
+    expect(plan.clean).toHaveLength(2);
+    expect(plan.dropped).toEqual([]);
+  });
+
+  it('remaps a departed teacher and drops the class when the replacement is double-booked', () => {
+    const plan = planRollover(
+      [entry('a'), entry('b', { teacherId: 'teacher-gone', room: '202' })],
+      options({ teacherMap: { 'teacher-gone': 'teacher-1' } })
+    );
+    expect(plan.clean.map((i) => i.source.id)).toEqual(['a']);
+    expect(plan.dropped[0].issues.map((i) => i.type)).toEqual(['teacher_remapped', 'conflict']);
+  });
+
+  it('drops entries that clash with what is already in the target term', () => {
+    const plan = planRollover(
+      [entry('a'), entry('b', { teacherId: 'teacher-2', room: '202', startTime: '10:00', endTime: '11:00' })],
+      options({ existing: [entry('existing', { room: '303' })] })
+    );
+    expect(plan.clean.map((i) => i.source.id)).toEqual(['b']);
+    expect(plan.dropped.map((i) => i.source.id)).toEqual(['a']);
+    expect(plan.dropped[0].issues[0].type).toBe('conflict');
+  });
+});
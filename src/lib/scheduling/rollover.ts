@@ -0,0 +1,99 @@
+import { describeConflict, findConflicts, ScheduleSlot } from './conflicts';
+
+/*
+ * Term rollover: plans copying one term's timetable into another. Pure like the rest of this
+ * folder; the caller saves the carried entries and shows the summary.
+ */
+
+export type RolloverIssueType = 'teacher_remapped' | 'teacher_left' | 'subject_unavailable' | 'conflict';
+
+export interface RolloverIssue {
+  type: RolloverIssueType;
+  detail: string;
+}
+
+export interface RolloverItem<T> {
+  source: T;
+  entry: T | null; // The copy to create, or null when it can't carry over
+  issues: RolloverIssue[];
+}
+
+export interface RolloverPlan<T> {
+  items: RolloverItem<T>[];
+  clean: RolloverItem<T>[]; // Carried over unchanged
+  flagged: RolloverItem<T>[]; // Carried over, but something changed (e.g. a new teacher)
+  dropped: RolloverItem<T>[]; // Not carried over
+}
+
+export interface RolloverOptions<T extends ScheduleSlot = ScheduleSlot> {
+  activeTeacherIds: string[];
+  // Replacement for each teacher who left; null leaves their classes out
+  teacherMap: Record<string, string | null>;
+  isSubjectAvailable: (subjectId: string) => boolean;
+  describeSubject?: (subjectId: string) => string;
+  existing?: T[]; // Entries the new version keeps from the target term, treated as fixed
+}
+
+// Teachers in the source timetable who are no longer on staff
+export const findDepartedTeachers = (source: ScheduleSlot[], activeTeacherIds: string[]): string[] =>
+  Array.from(new Set(source.map((s) => s.teacherId))).filter((id) => id && !activeTeacherIds.includes(id));
+
+export const planRollover = <T extends ScheduleSlot & { subjectId: string }>(
+  source: T[],
+  options: RolloverOptions<T>
+): RolloverPlan<T> => {
+  const existing = options.existing ?? [];
+  const carried: T[] = [];
+  const items = [...source]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .map((sch): RolloverItem<T> => {
+      const issues: RolloverIssue[] = [];
+      if (!options.isSubjectAvailable(sch.subjectId)) {
+        return {
+          source: sch,
+          entry: null,
+          issues: [{ type: 'subject_unavailable', detail: 'Subject is not offered in the new term' }],
+        };
+      }
+
+      let teacherId = sch.teacherId;
+      if (!options.activeTeacherIds.includes(teacherId)) {
+        const replacement = options.teacherMap[teacherId];
+        if (!replacement) {
+          return {
+            source: sch,
+            entry: null,
+            issues: [{ type: 'teacher_left', detail: 'Teacher has left and no replacement was chosen' }],
+          };
+        }
+        teacherId = replacement;
+        issues.push({ type: 'teacher_remapped', detail: 'Teacher has left; assigned to the replacement' });
+      }
+
+      // Re-check against the target term and what has carried over so far; replacements can double-book a teacher
+      const entry = { ...sch, teacherId };
+      const conflicts = findConflicts(entry, [...existing, ...carried]);
+      if (conflicts.length > 0) {
+        return {
+          source: sch,
+          entry: null,
+          issues: [
+            ...issues,
+            ...conflicts.map((c) => ({
+              type: 'conflict' as const,
+              detail: describeConflict(c, c.schedule && options.describeSubject?.(c.schedule.subjectId)),
+            })),
+          ],
+        };
+      }
+      carried.push(entry);
+      return { source: sch, entry, issues };
+    });
+
+  return {
+    items,
+    clean: items.filter((i) => i.entry && i.issues.length === 0),
+    flagged: items.filter((i) => i.entry && i.issues.length > 0),
+    dropped: items.filter((i) => !i.entry),
+  };
+};
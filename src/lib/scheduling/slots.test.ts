@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { ScheduleSlot } from './conflicts';
+import { findFreeSlots, findNextFreeSlot, getPreferredSlots } from './slots';
+
+const slot = (overrides: Partial<ScheduleSlot> = {}): ScheduleSlot => ({
+  id: 'existing',
+  teacherId: 'teacher-1',
+  room: '101',
+  sectionId: 'section-1',
+  days: ['Monday'],
+  startTime: '08:00',
+  endTime: '09:00',
+  ...overrides,
+});
+
+const hourOn = (days: string[]) => ({ teacherId: 'teacher-1', days, durationMinutes: 60 });
+
+describe('findFreeSlots', () => {
+  it('returns the whole school day when nothing is booked', () => {
+    expect(findFreeSlots(hourOn(['Monday', 'Tuesday']), [])).toEqual([
+      { day: 'Monday', startTime: '07:00', endTime: '21:00' },
+      { day: 'Tuesday', startTime: '07:00', endTime: '21:00' },
+    ]);
+  });
+
+  it('leaves out the teacher, room and section bookings', () => {
+    const existing = [
+      slot(),
+      slot({ id: 'room', teacherId: 'teacher-2', sectionId: 'section-2', startTime: '11:00', endTime: '12:00' }),
+      slot({ id: 'section', teacherId: 'teacher-3', room: '303', startTime: '15:00', endTime: '16:00' }),
+    ];
+    expect(findFreeSlots({ ...hourOn(['Monday']), room: '101', sectionId: 'section-1' }, existing)).toEqual([
+      { day: 'Monday', startTime: '07:00', endTime: '08:00' },
+      { day: 'Monday', startTime: '09:00', endTime: '11:00' },
+      { day: 'Monday', startTime: '12:00', endTime: '15:00' },
+      { day: 'Monday', startTime: '16:00', endTime: '21:00' },
+    ]);
+    // Without a room or section only the teacher's own class counts
+    expect(findFreeSlots(hourOn(['Monday']), existing)).toHaveLength(2);
+  });
+
+  it('drops gaps shorter than the duration', () => {
+    const existing = [slot({ startTime: '07:30', endTime: '09:00' })];
+    expect(findFreeSlots(hourOn(['Monday']), existing)).toEqual([
+      { day: 'Monday', startTime: '09:00', endTime: '21:00' },
+    ]);
+  });
+
+  it('clips bookings and holidays to the school day', () => {
+    const existing = [slot({ startTime: '06:00', endTime: '08:00' }), slot({ id: 'late', startTime: '20:30', endTime: '22:00' })];
+    expect(findFreeSlots(hourOn(['Monday']), existing)).toEqual([
+      { day: 'Monday', startTime: '08:00', endTime: '20:30' },
+    ]);
+    expect(
+      findFreeSlots(hourOn(['Monday']), [], {
+        dayStart: '08:00',
+        dayEnd: '17:00',
+        blocked: { Monday: [{ startTime: '16:00', endTime: '23:00' }] },
+      })
+    ).toEqual([{ day: 'Monday', startTime: '08:00', endTime: '16:00' }]);
+  });
+
+  it('blocks holidays on their weekday only', () => {
+    const blocked = {
+      Monday: [{ startTime: '07:00', endTime: '21:00' }],
+      Tuesday: [{ startTime: '12:00', endTime: '13:00' }],
+    };
+    expect(findFreeSlots(hourOn(['Monday', 'Tuesday', 'Wednesday']), [], { blocked })).toEqual([
+      { day: 'Tuesday', startTime: '07:00', endTime: '12:00' },
+      { day: 'Tuesday', startTime: '13:00', endTime: '21:00' },
+      { day: 'Wednesday', startTime: '07:00', endTime: '21:00' },
+    ]);
+  });
+
+  it('merges a holiday that overlaps a class', () => {
+    const blocked = { Monday: [{ startTime: '08:30', endTime: '10:00' }] };
+    expect(findFreeSlots(hourOn(['Monday']), [slot()], { blocked })).toEqual([
+      { day: 'Monday', startTime: '07:00', endTime: '08:00' },
+      { day: 'Monday', startTime: '10:00', endTime: '21:00' },
+    ]);
+  });
+
+  it('treats the teacher\'s unavailable time as busy', () => {
+    const unavailable = [{ teacherId: 'teacher-1', day: 'Monday', startTime: '17:00', endTime: '21:00' }];
+    expect(findFreeSlots(hourOn(['Monday']), [], { unavailable })).toEqual([
+      { day: 'Monday', startTime: '07:00', endTime: '17:00' },
+    ]);
+  });
+});
+
+describe('findNextFreeSlot', () => {
+  const candidate = (overrides: Partial<ScheduleSlot> = {}) => slot({ id: undefined, room: '202', sectionId: 'section-2', ...overrides });
+
+  it('keeps the candidate\'s own time when it is free', () => {
+    expect(findNextFreeSlot(candidate(), [])).toEqual({ startTime: '08:00', endTime: '09:00' });
+  });
+
+  it('moves past a clash in steps, keeping the duration', () => {
+    expect(findNextFreeSlot(candidate({ endTime: '09:30' }), [slot()])).toEqual({ startTime: '09:00', endTime: '10:30' });
+  });
+
+  it('rounds the start up onto the step grid', () => {
+    expect(findNextFreeSlot(candidate({ startTime: '08:10', endTime: '09:10' }), [])).toEqual({
+      startTime: '08:30',
+      endTime: '09:30',
+    });
+    expect(findNextFreeSlot(candidate({ startTime: '06:00', endTime: '07:00' }), [])).toEqual({
+      startTime: '07:00',
+      endTime: '08:00',
+    });
+  });
+
+  it('needs the time to be free on every day', () => {
+    const existing = [
+      slot({ startTime: '09:00', endTime: '10:00' }),
+      slot({ id: 'wednesday', days: ['Wednesday'], startTime: '10:00', endTime: '11:00' }),
+    ];
+    const next = findNextFreeSlot(candidate({ days: ['Monday', 'Wednesday'], startTime: '09:00', endTime: '10:00' }), existing);
+    expect(next).toEqual({ startTime: '11:00', endTime: '12:00' });
+  });
+
+  it('returns null when the rest of the day is booked', () => {
+    const existing = [slot({ startTime: '20:00', endTime: '21:00' })];
+    expect(findNextFreeSlot(candidate({ startTime: '20:00', endTime: '21:00' }), existing)).toBeNull();
+  });
+
+  it('ignores the entry being moved', () => {
+    expect(findNextFreeSlot(candidate({ id: 'existing' }), [slot()], { ignoreId: 'existing' })).toEqual({
+      startTime: '08:00',
+      endTime: '09:00',
+    });
+  });
+
+  it('prefers the teacher\'s preferred times and falls back to the earliest free slot', () => {
+    const preferred = { Monday: [{ startTime: '13:00', endTime: '15:00' }] };
+    expect(findNextFreeSlot(candidate(), [], { preferred })).toEqual({ startTime: '13:00', endTime: '14:00' });
+
+    const booked = [slot({ startTime: '13:00', endTime: '15:00' })];
+    expect(findNextFreeSlot(candidate(), booked, { preferred })).toEqual({ startTime: '08:00', endTime: '09:00' });
+  });
+});
+
+describe('getPreferredSlots', () => {
+  it('keeps the preferred parts of free slots that still fit', () => {
+    const free = [
+      { day: 'Monday', startTime: '07:00', endTime: '12:00' },
+      { day: 'Tuesday', startTime: '07:00', endTime: '21:00' },
+    ];
+    const preferred = {
+      Monday: [{ startTime: '11:00', endTime: '14:00' }],
+      Tuesday: [{ startTime: '09:00', endTime: '09:30' }],
+    };
+    expect(getPreferredSlots(free, preferred, 60)).toEqual([{ day: 'Monday', startTime: '11:00', endTime: '12:00' }]);
+  });
+});
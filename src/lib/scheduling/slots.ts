@@ -0,0 +1,142 @@
+import { findConflicts, minutesToTime, ScheduleSlot, toMinuteRange, UnavailableBlock } from './conflicts';
+
+/*
+ * Free-slot search on top of the conflict engine. Like conflicts.ts this module is pure:
+ * callers pass in the existing schedules and get plain "HH:mm" times back.
+ */
+
+export interface SlotSearchOptions {
+  dayStart?: string; // Earliest start time considered
+  dayEnd?: string; // Latest end time considered
+  stepMinutes?: number; // Granularity of candidate start times
+  ignoreId?: string;
+  unavailable?: UnavailableBlock[]; // Teachers' unavailable times, treated as busy
+  preferred?: Record<string, TimeBlock[]>; // The teacher's preferred times per day, tried first
+}
+
+// Default school day used when searching for slots
+export const SCHOOL_DAY_START = '07:00';
+export const SCHOOL_DAY_END = '21:00';
+export const SLOT_STEP_MINUTES = 30;
+
+// Whether [start, end) lies inside one of the blocks
+const isWithinBlocks = (start: number, end: number, blocks: TimeBlock[] = []) =>
+  blocks.some((block) => {
+    const [blockStart, blockEnd] = toMinuteRange(block.startTime, block.endTime);
+    return blockStart <= start && end <= blockEnd;
+  });
+
+/**
+ * Earliest start at or after the candidate's own start time (same days, same duration) that
+ * causes no conflicts, or null if the rest of the school day is fully booked. With `preferred`
+ * times a free slot inside them on every day wins over an earlier one outside them.
+ */
+export const findNextFreeSlot = (
+  candidate: ScheduleSlot,
+  existing: ScheduleSlot[],
+  options: SlotSearchOptions = {}
+): { startTime: string; endTime: string } | null => {
+  const step = options.stepMinutes ?? SLOT_STEP_MINUTES;
+  const [candidateStart, candidateEnd] = toMinuteRange(candidate.startTime, candidate.endTime);
+  const duration = candidateEnd - candidateStart;
+  const [dayStart, dayEnd] = toMinuteRange(options.dayStart ?? SCHOOL_DAY_START, options.dayEnd ?? SCHOOL_DAY_END);
+
+  // Round up onto the step grid so suggestions land on tidy times
+  const first = Math.max(dayStart, Math.ceil(candidateStart / step) * step);
+  const { preferred } = options;
+  const passes = preferred ? [true, false] : [false];
+  for (const preferredOnly of passes) {
+    for (let start = first; start + duration <= dayEnd; start += step) {
+      if (preferredOnly && !candidate.days.every((day) => isWithinBlocks(start, start + duration, preferred?.[day]))) {
+        continue;
+      }
+      const slot = { startTime: minutesToTime(start), endTime: minutesToTime(start + duration) };
+      const conflicts = findConflicts({ ...candidate, ...slot }, existing, {
+        ignoreId: options.ignoreId,
+        unavailable: options.unavailable,
+      });
+      if (conflicts.length === 0) return slot;
+    }
+  }
+  return null;
+};
+
+export interface TimeBlock {
+  startTime: string;
+  endTime: string;
+}
+
+// A free window on one day; it is at least the requested duration long
+export interface FreeSlot extends TimeBlock {
+  day: string;
+}
+
+export interface FreeSlotQuery {
+  teacherId: string;
+  room?: string; // Leave empty to only check the teacher
+  sectionId?: string; // Also keep clear of the section's other classes
+  days: string[];
+  durationMinutes: number;
+}
+
+/**
+ * Every gap in the school day where the teacher (and the room and section, if given) is free for at least
+ * the requested duration. `blocked` holds extra busy time per day, e.g. holidays from the calendar.
+ */
+export const findFreeSlots = (
+  slotQuery: FreeSlotQuery,
+  existing: ScheduleSlot[],
+  options: SlotSearchOptions & { blocked?: Record<string, TimeBlock[]> } = {}
+): FreeSlot[] => {
+  const dayStartTime = options.dayStart ?? SCHOOL_DAY_START;
+  const dayEndTime = options.dayEnd ?? SCHOOL_DAY_END;
+  const [dayStart, dayEnd] = toMinuteRange(dayStartTime, dayEndTime);
+  const slots: FreeSlot[] = [];
+
+  for (const day of slotQuery.days) {
+    // Asking for the whole day as a candidate returns each clash clipped to school hours
+    const busy = findConflicts(
+      {
+        teacherId: slotQuery.teacherId,
+        room: slotQuery.room ?? '',
+        sectionId: slotQuery.sectionId,
+        days: [day],
+        startTime: dayStartTime,
+        endTime: dayEndTime,
+      },
+      existing,
+      { ignoreId: options.ignoreId, unavailable: options.unavailable }
+    ).map((c) => toMinuteRange(c.overlapStart, c.overlapEnd));
+    for (const block of options.blocked?.[day] ?? []) {
+      busy.push(toMinuteRange(block.startTime, block.endTime));
+    }
+    busy.sort((a, b) => a[0] - b[0]);
+
+    let cursor = dayStart;
+    for (const [start, end] of [...busy, [dayEnd, dayEnd] as [number, number]]) {
+      if (Math.min(start, dayEnd) - cursor >= slotQuery.durationMinutes) {
+        slots.push({ day, startTime: minutesToTime(cursor), endTime: minutesToTime(Math.min(start, dayEnd)) });
+      }
+      cursor = Math.max(cursor, end);
+    }
+  }
+  return slots;
+};
+
+// The parts of free slots that fall within the teacher's preferred times and still fit the duration
+export const getPreferredSlots = (
+  slots: FreeSlot[],
+  preferred: Record<string, TimeBlock[]>,
+  durationMinutes: number
+): FreeSlot[] =>
+  slots.flatMap((slot) =>
+    (preferred[slot.day] ?? []).flatMap((block) => {
+      const [start, end] = toMinuteRange(slot.startTime, slot.endTime);
+      const [blockStart, blockEnd] = toMinuteRange(block.startTime, block.endTime);
+      const from = Math.max(start, blockStart);
+      const to = Math.min(end, blockEnd);
+      return to - from >= durationMinutes
+        ? [{ day: slot.day, startTime: minutesToTime(from), endTime: minutesToTime(to) }]
+        : [];
+    })
+  );
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AREA_PERMISSIONS, PermissionMatrix, ROLES } from '@/utils/roles';
+import { getRequestSession } from '@/utils/session';
+
+// Permission changes reach the middleware within this window instead of costing a fetch per navigation
+const PERMISSIONS_TTL_MS = 1000 * 30;
+let cachedPermissions: { matrix: PermissionMatrix; expiresAt: number } | null = null;
+
+// The Edge runtime cannot use the Admin SDK, so read the live matrix through the API (defaults on failure).
+// The route requires a session, so the caller's cookie is passed along.
+const getLivePermissions = async (request: NextRequest): Promise<PermissionMatrix> => {
+  if (cachedPermissions && cachedPermissions.expiresAt > Date.now()) return cachedPermissions.matrix;
+  try {
+    const res = await fetch(new URL('/api/permissions', request.url), {
+      cache: 'no-store',
+      headers: { cookie: request.headers.get('cookie') ?? '' },
+    });
+    if (res.ok) {
+      const matrix: PermissionMatrix = (await res.json()).permissions;
+      cachedPermissions = { matrix, expiresAt: Date.now() + PERMISSIONS_TTL_MS };
+      return matrix;
+    }
+  } catch (error) {
+    console.error('Failed to load permissions in middleware', error);
+  }
+  return ROLES;
+};
+
+// Guard the dashboard (and any sub-route) using the signed session cookie
+export async function middleware(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  // e.g. /dashboard/users -> "users"
+  const area = request.nextUrl.pathname.split('/')[2];
+
+  // Users covered by the 2FA policy must finish enrollment on the main dashboard first
+  if (session.twoFactorSetupRequired && area) {
+    return NextResponse.redirect(new URL('/dashboard', request.url));
+  }
+
+  // Areas without a permission entry (e.g. "security") are open to every signed-in user
+  const permission = area ? AREA_PERMISSIONS[area] : undefined;
+  if (permission && !(await getLivePermissions(request))[session.role]?.[permission]) {
+    return NextResponse.rewrite(new URL('/forbidden', request.url), { status: 403 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/dashboard', '/dashboard/:path*'],
+};
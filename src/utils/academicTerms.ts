@@ -0,0 +1,42 @@
+// A school year's semester; schedules, drafts, calendar events and subject offerings belong to one
+export type TermStatus = 'upcoming' | 'active' | 'closed';
+
+export interface AcademicTerm {
+  id?: string;
+  schoolYear: string; // e.g. "2026-2027"
+  semester: string; // e.g. "1st Semester"
+  startDate: string; // "YYYY-MM-DD"
+  endDate: string;
+  status: TermStatus;
+  createdAt: string;
+}
+
+export const TERM_STATUS_LABELS: Record<TermStatus, string> = {
+  upcoming: 'Upcoming',
+  active: 'Active',
+  closed: 'Closed',
+};
+
+export const SEMESTERS = ['1st Semester', '2nd Semester', 'Summer'];
+
+export const getTermLabel = (term: AcademicTerm) => `${term.semester} ${term.schoolYear}`;
+
+// Newest first by start date
+export const sortTerms = (terms: AcademicTerm[]) => [...terms].sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+// The term the dashboard opens on: the active one, otherwise the most recent
+export const getCurrentTerm = (terms: AcademicTerm[]): AcademicTerm | undefined =>
+  terms.find((t) => t.status === 'active') ?? sortTerms(terms)[0];
+
+/**
+ * Whether a record belongs to the selected term. Records saved before terms existed have no
+ * `termId` and count as part of the current term; with no terms set up everything is shown.
+ */
+export const isInTerm = (record: { termId?: string }, termId: string, currentTermId?: string): boolean => {
+  if (!termId) return true;
+  return record.termId ? record.termId === termId : termId === currentTermId;
+};
+
+// Subjects list the terms they are offered in; subjects without a list are offered every term
+export const isOfferedInTerm = (subject: { termIds?: string[] }, termId: string): boolean =>
+  !termId || !subject.termIds?.length || subject.termIds.includes(termId);
@@ -0,0 +1,23 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/utils/firebaseAdmin';
+
+/*
+ * bcrypt password hashes live in userCredentials/{userId}, which the security rules close to
+ * every client. The users documents stay readable by signed-in users, so they never hold a hash.
+ */
+
+export const credentialsRef = (userId: string) => adminDb.collection('userCredentials').doc(userId);
+
+// Hash for a user, falling back to one an older version left on the users document
+export const getPasswordHash = async (userId: string, userData?: { password?: string }): Promise<string | null> => {
+  const credentials = await credentialsRef(userId).get();
+  return credentials.data()?.password ?? userData?.password ?? null;
+};
+
+// Stores a hash and strips any legacy copy from the users document
+export const setPasswordHash = async (userId: string, password: string, userUpdates: Record<string, unknown> = {}) => {
+  const batch = adminDb.batch();
+  batch.set(credentialsRef(userId), { password, updatedAt: new Date().toISOString() });
+  batch.update(adminDb.collection('users').doc(userId), { ...userUpdates, password: FieldValue.delete() });
+  await batch.commit();
+};
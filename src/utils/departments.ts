@@ -0,0 +1,13 @@
+// A `departments` document; its courses live in the `departments/{id}/courses` subcollection
+export interface Department {
+  id: string;
+  name: string;
+}
+
+// A course, tagged with the department it was read from
+export interface Course {
+  id: string;
+  name: string;
+  code: string;
+  departmentId: string;
+}
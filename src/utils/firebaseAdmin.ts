@@ -0,0 +1,21 @@
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+
+// Server-side Firebase Admin configuration (service account credentials)
+const adminConfig = {
+  projectId: process.env.FIREBASE_PROJECT_ID ?? process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+  privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+};
+
+// Reuse the existing app across hot reloads; fall back to application default credentials
+const adminApp =
+  getApps()[0] ??
+  initializeApp(adminConfig.clientEmail ? { credential: cert(adminConfig) } : { projectId: adminConfig.projectId });
+
+const adminDb = getFirestore(adminApp);
+// Only used to mint custom tokens so Firestore security rules can see the session's role
+const adminAuth = getAuth(adminApp);
+
+export { adminApp, adminDb, adminAuth };
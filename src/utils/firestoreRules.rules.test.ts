@@ -0,0 +1,207 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, query, setDoc, updateDoc, where } from 'firebase/firestore';
+import { BuiltInRole, canEditUser, mergePermissions, PermissionMatrix, ROLES } from '@/utils/roles';
+import { buildFirestoreRules } from '@/utils/firestoreRules';
+
+// Runs against the Firestore emulator: `npm run test:rules`
+
+const DEPARTMENTS = ['dept-a', 'dept-b'];
+const BUILT_IN_ROLES = Object.keys(ROLES) as BuiltInRole[];
+
+let testEnv: RulesTestEnvironment;
+
+const contextFor = (role: string, departmentId: string) =>
+  testEnv.authenticatedContext(`${role}-${departmentId}`, { role, departmentId }).firestore();
+
+const userData = (role: string, departmentId: string) => ({
+  username: `${role}-${departmentId}-user`,
+  firstName: 'Test',
+  lastName: 'User',
+  email: 'test@example.com',
+  role,
+  departmentId,
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+const seedUser = async (id: string, data: Record<string, unknown>) =>
+  testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), 'users', id), data);
+  });
+
+// Whether the rules allowed the write, so it can be compared with canEditUser()
+const allowed = async (write: Promise<unknown>) => {
+  try {
+    await write;
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-mcti-rules',
+    firestore: { rules: buildFirestoreRules() },
+  });
+});
+
+afterAll(async () => {
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+it('matches the checked-in firestore.rules', () => {
+  expect(readFileSync(resolve(__dirname, '..', '..', 'firestore.rules'), 'utf8')).toBe(buildFirestoreRules());
+});
+
+describe('users with the default permission matrix', () => {
+  const matrix: PermissionMatrix = mergePermissions({});
+
+  for (const actorRole of BUILT_IN_ROLES) {
+    for (const targetRole of BUILT_IN_ROLES) {
+      for (const targetDept of DEPARTMENTS) {
+        const expected = canEditUser(matrix, actorRole, targetRole, 'dept-a', targetDept);
+        const label = `${actorRole} (dept-a) ${expected ? 'can' : 'cannot'} manage a ${targetRole} in ${targetDept}`;
+
+        it(label, async () => {
+          const db = contextFor(actorRole, 'dept-a');
+          const id = `${targetRole}-${targetDept}`;
+          expect(await allowed(setDoc(doc(db, 'users', `new-${id}`), userData(targetRole, targetDept)))).toBe(expected);
+
+          await seedUser(id, userData(targetRole, targetDept));
+          expect(await allowed(updateDoc(doc(db, 'users', id), { firstName: 'Renamed' }))).toBe(expected);
+          expect(await allowed(deleteDoc(doc(db, 'users', id)))).toBe(expected);
+        });
+      }
+    }
+  }
+});
+
+describe('users with a custom role from rolePermissions', () => {
+  const overrides = {
+    program_chair: {
+      label: 'Program Chair',
+      departmentScope: 'department' as const,
+      canManageUsers: true,
+      allowedRoles: ['teacher'],
+    },
+  };
+  const matrix = mergePermissions(overrides);
+
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'rolePermissions', 'program_chair'), overrides.program_chair);
+    });
+  });
+
+  for (const targetRole of BUILT_IN_ROLES) {
+    for (const targetDept of DEPARTMENTS) {
+      const expected = canEditUser(matrix, 'program_chair', targetRole, 'dept-a', targetDept);
+
+      it(`program_chair ${expected ? 'can' : 'cannot'} create a ${targetRole} in ${targetDept}`, async () => {
+        const db = contextFor('program_chair', 'dept-a');
+        expect(await allowed(setDoc(doc(db, 'users', 'new-user'), userData(targetRole, targetDept)))).toBe(expected);
+      });
+    }
+  }
+
+  it('cannot move a user into a role it may not assign', async () => {
+    await seedUser('teacher-a', userData('teacher', 'dept-a'));
+    const db = contextFor('program_chair', 'dept-a');
+    await assertFails(updateDoc(doc(db, 'users', 'teacher-a'), { role: 'registrar' }));
+  });
+});
+
+describe('password hashes', () => {
+  it('refuses users documents that carry a password', async () => {
+    const db = contextFor('admin', '');
+    await assertFails(setDoc(doc(db, 'users', 'new-user'), { ...userData('teacher', 'dept-a'), password: 'hash' }));
+
+    await seedUser('teacher-a', userData('teacher', 'dept-a'));
+    await assertFails(updateDoc(doc(db, 'users', 'teacher-a'), { password: 'hash' }));
+    await assertSucceeds(updateDoc(doc(db, 'users', 'teacher-a'), { firstName: 'Renamed' }));
+  });
+
+  it('keeps userCredentials closed to every client', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'userCredentials', 'teacher-dept-a'), { password: 'hash' });
+    });
+    await assertFails(getDoc(doc(contextFor('admin', ''), 'userCredentials', 'teacher-dept-a')));
+    await assertFails(getDoc(doc(contextFor('teacher', 'dept-a'), 'userCredentials', 'teacher-dept-a')));
+  });
+});
+
+describe('schedule drafts', () => {
+  const entry = (teacherId: string, draftId?: string) => ({
+    subjectId: 'subject-1',
+    teacherId,
+    departmentId: 'dept-a',
+    room: 'R101',
+    days: ['Monday'],
+    startTime: '08:00',
+    endTime: '09:00',
+    ...(draftId ? { draftId } : {}),
+  });
+
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, 'scheduleDrafts', 'published'), { name: 'Live', status: 'published' });
+      await setDoc(doc(db, 'scheduleDrafts', 'draft'), { name: 'Next', status: 'draft' });
+      await setDoc(doc(db, 'schedules', 'legacy'), entry('teacher-dept-b'));
+      await setDoc(doc(db, 'schedules', 'live'), entry('teacher-dept-b', 'published'));
+      await setDoc(doc(db, 'schedules', 'unpublished'), entry('teacher-dept-b', 'draft'));
+      await setDoc(doc(db, 'schedules', 'own-unpublished'), entry('teacher-dept-a', 'draft'));
+    });
+  });
+
+  it('lets teachers read published entries but not other teachers\' draft entries', async () => {
+    const db = contextFor('teacher', 'dept-a');
+    await assertSucceeds(getDoc(doc(db, 'schedules', 'legacy')));
+    await assertSucceeds(getDoc(doc(db, 'schedules', 'live')));
+    await assertFails(getDoc(doc(db, 'schedules', 'unpublished')));
+    await assertFails(getDocs(collection(db, 'schedules')));
+    await assertSucceeds(getDocs(query(collection(db, 'schedules'), where('teacherId', '==', 'teacher-dept-a'))));
+  });
+
+  it('lets schedulers list every entry', async () => {
+    await assertSucceeds(getDocs(collection(contextFor('dept_head', 'dept-a'), 'schedules')));
+  });
+
+  it('only accepts change requests for the teacher\'s own entry under its department', async () => {
+    const db = contextFor('teacher', 'dept-a');
+    const request = (scheduleId: string, departmentId: string) => ({
+      scheduleId,
+      teacherId: 'teacher-dept-a',
+      departmentId,
+      type: 'remove',
+      reason: 'Clash',
+      status: 'pending',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    });
+    await assertSucceeds(addDoc(collection(db, 'scheduleChangeRequests'), request('own-unpublished', 'dept-a')));
+    await assertFails(addDoc(collection(db, 'scheduleChangeRequests'), request('own-unpublished', 'dept-b')));
+    await assertFails(addDoc(collection(db, 'scheduleChangeRequests'), request('live', 'dept-a')));
+    await assertFails(addDoc(collection(db, 'scheduleChangeRequests'), request('missing', 'dept-a')));
+  });
+});
+
+describe('login audit', () => {
+  it('is limited to roles that manage users across all departments', async () => {
+    await assertSucceeds(getDocs(collection(contextFor('registrar', ''), 'loginAttempts')));
+    await assertFails(getDocs(collection(contextFor('dept_head', 'dept-a'), 'loginAttempts')));
+    await assertFails(getDocs(collection(contextFor('teacher', 'dept-a'), 'impersonationLogs')));
+  });
+});
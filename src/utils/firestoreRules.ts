@@ -0,0 +1,264 @@
+import { BuiltInRole, EMPTY_ROLE, RolePermissions, ROLES } from '@/utils/roles';
+
+/*
+ * Builds firestore.rules from the permission model in roles.ts (run `npm run rules:generate`).
+ *
+ * Clients sign in with a custom token whose claims carry the session's role and department
+ * (see /api/auth/firebase-token), so `request.auth.uid` is the user's document id. Permission
+ * checks read `rolePermissions/{role}` like the app does and fall back to the ROLES defaults,
+ * which keeps the rules in sync with the "Roles & Permissions" screen without regenerating.
+ */
+
+// Render a value from the permission model as a rules-language literal
+const toRulesLiteral = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(toRulesLiteral).join(', ')}]`;
+  if (typeof value === 'string') return `'${value}'`;
+  return String(value);
+};
+
+const toRulesMap = (permissions: RolePermissions, indent: string) => {
+  const entries = Object.entries(permissions)
+    .filter(([key]) => key !== 'label')
+    .map(([key, value]) => `${indent}  '${key}': ${toRulesLiteral(value)}`);
+  return `{\n${entries.join(',\n')}\n${indent}}`;
+};
+
+const defaultsFunction = () => {
+  const roles = (Object.keys(ROLES) as BuiltInRole[])
+    .map((role) => `        '${role}': ${toRulesMap(ROLES[role], '        ')}`)
+    .join(',\n');
+  return `    // Built-in defaults from ROLES; custom roles start from EMPTY_ROLE
+    function defaultPermissions(r) {
+      return {
+${roles}
+      }.get(r, ${toRulesMap(EMPTY_ROLE, '      ')});
+    }`;
+};
+
+// Collections only the server (Admin SDK) may touch; userCredentials holds the password hashes
+const SERVER_ONLY_COLLECTIONS = ['passwordResets', 'twoFactor', 'userCredentials'];
+
+export const buildFirestoreRules = () => {
+  return `rules_version = '2';
+
+// Generated from src/utils/roles.ts by \`npm run rules:generate\` - do not edit by hand.
+
+service cloud.firestore {
+  match /databases/{database}/documents {
+    function signedIn() {
+      return request.auth != null && request.auth.token.role is string;
+    }
+
+    function myRole() {
+      return request.auth.token.role;
+    }
+
+    function myDepartment() {
+      return request.auth.token.get('departmentId', '');
+    }
+
+    // Set while an admin is viewing the dashboard as another user
+    function readOnly() {
+      return request.auth.token.get('readOnly', false) == true;
+    }
+
+${defaultsFunction()}
+
+    // Live setting for a role: rolePermissions/{role} overrides the defaults, like mergePermissions()
+    function roleSetting(r, key) {
+      let path = /databases/$(database)/documents/rolePermissions/$(r);
+      let fallback = defaultPermissions(r).get(key, null);
+      return exists(path) ? get(path).data.get(key, fallback) : fallback;
+    }
+
+    function can(permission) {
+      return signedIn() && !readOnly() && roleSetting(myRole(), permission) == true;
+    }
+
+    function allDepartments() {
+      return roleSetting(myRole(), 'departmentScope') != 'department';
+    }
+
+    function inMyDepartment(departmentId) {
+      return allDepartments() || departmentId == myDepartment();
+    }
+
+    // Mirrors getUserRoleOptions()
+    function canAssignRole(target) {
+      let allowed = roleSetting(myRole(), 'allowedRoles');
+      let restricted = roleSetting(myRole(), 'restrictedRoles');
+      return can('canManageUsers')
+        && (allowed == null || target in allowed)
+        && (restricted == null || !(target in restricted))
+        && (can('canManageRoles') || roleSetting(target, 'canManageRoles') != true);
+    }
+
+    // Mirrors canEditUser()
+    function canEditUser(user) {
+      return canAssignRole(user.role) && inMyDepartment(user.get('departmentId', ''));
+    }
+
+    // Every signed-in user reads these, so password hashes are kept in userCredentials instead
+    match /users/{userId} {
+      allow read: if signedIn();
+      allow create: if canEditUser(request.resource.data) && !('password' in request.resource.data);
+      allow update: if canEditUser(resource.data) && canEditUser(request.resource.data)
+        && !request.resource.data.diff(resource.data).affectedKeys().hasAny(['password']);
+      allow delete: if canEditUser(resource.data);
+    }
+
+    // Read by the login page before anyone is signed in
+    match /departments/{departmentId} {
+      allow read: if true;
+      allow write: if can('canManageAllDepartments');
+
+      match /courses/{courseId} {
+        allow read: if true;
+        allow write: if can('canManageAllDepartments');
+      }
+    }
+
+    match /subjects/{subjectId} {
+      allow read: if signedIn();
+      allow create, update: if can('canManageSubjects') && inMyDepartment(request.resource.data.departmentId);
+      allow delete: if can('canManageSubjects') && inMyDepartment(resource.data.departmentId);
+    }
+
+    match /schedules/{scheduleId} {
+      function canManage(data) {
+        return can('canManageSchedule') && inMyDepartment(data.departmentId);
+      }
+      // Not can(): "view as" sessions still read the timetable they are shown
+      function readsAllSchedules() {
+        return signedIn() && roleSetting(myRole(), 'canManageSchedule') == true;
+      }
+      // Entries saved before drafts existed have no draftId
+      function isPublished(data) {
+        return data.get('draftId', '') == ''
+          || get(/databases/$(database)/documents/scheduleDrafts/$(data.draftId)).data.status == 'published';
+      }
+      // Teachers may only accept or decline their own entries; other changes go through change requests
+      function respondingToOwnSchedule() {
+        return can('canApproveSchedule')
+          && resource.data.teacherId == request.auth.uid
+          && request.resource.data.diff(resource.data).affectedKeys()
+            .hasOnly(['approved', 'status', 'declineReason', 'respondedAt']);
+      }
+
+      // Everyone else reads published entries one at a time, and lists only their own (the rest come
+      // from /api/schedules/published)
+      allow read: if readsAllSchedules()
+        || (signedIn() && resource.data.teacherId == request.auth.uid);
+      allow get: if signedIn() && isPublished(resource.data);
+      allow create: if canManage(request.resource.data);
+      allow update: if (canManage(resource.data) && canManage(request.resource.data)) || respondingToOwnSchedule();
+      allow delete: if canManage(resource.data);
+    }
+
+    match /scheduleChangeRequests/{requestId} {
+      function requestedSchedule() {
+        return get(/databases/$(database)/documents/schedules/$(request.resource.data.scheduleId)).data;
+      }
+
+      allow read: if signedIn();
+      // Filed against the teacher's own entry, under that entry's department so the right reviewers see it
+      allow create: if can('canApproveSchedule')
+        && request.resource.data.teacherId == request.auth.uid
+        && request.resource.data.status == 'pending'
+        && requestedSchedule().teacherId == request.auth.uid
+        && request.resource.data.departmentId == requestedSchedule().departmentId;
+      allow update: if can('canManageSchedule') && inMyDepartment(resource.data.departmentId);
+    }
+
+    match /academicTerms/{termId} {
+      allow read: if signedIn();
+      allow write: if can('canManageCalendar') && allDepartments();
+    }
+
+    // Publishing changes what every teacher sees, so only roles without a department scope manage drafts
+    match /scheduleDrafts/{draftId} {
+      allow read: if signedIn();
+      allow create: if can('canManageSchedule') && allDepartments() && request.resource.data.status == 'draft';
+      allow update, delete: if can('canManageSchedule') && allDepartments();
+    }
+
+    match /sections/{sectionId} {
+      allow read: if signedIn();
+      allow create, update: if can('canManageSubjects') && inMyDepartment(request.resource.data.departmentId);
+      allow delete: if can('canManageSubjects') && inMyDepartment(resource.data.departmentId);
+    }
+
+    // Keyed by the subject's department, so dept heads only qualify teachers for their own subjects
+    match /teacherQualifications/{qualificationId} {
+      allow read: if signedIn();
+      allow create, update: if can('canManageSubjects') && inMyDepartment(request.resource.data.departmentId);
+      allow delete: if can('canManageSubjects') && inMyDepartment(resource.data.departmentId);
+    }
+
+    // Teachers keep their own grid; schedulers may edit it for teachers in their department
+    match /teacherAvailability/{teacherId} {
+      function teacherDepartment() {
+        return get(/databases/$(database)/documents/users/$(teacherId)).data.get('departmentId', '');
+      }
+
+      allow read: if signedIn();
+      allow write: if (signedIn() && !readOnly() && request.auth.uid == teacherId)
+        || (can('canManageSchedule') && inMyDepartment(teacherDepartment()));
+    }
+
+    match /rooms/{roomId} {
+      allow read: if signedIn();
+      allow write: if can('canManageRooms');
+    }
+
+    match /calendar/{eventId} {
+      allow read: if signedIn();
+      allow create, update: if can('canManageCalendar') && inMyDepartment(request.resource.data.departmentId);
+      allow delete: if can('canManageCalendar') && inMyDepartment(resource.data.departmentId);
+    }
+
+    // "Contact Admin" / "Request Account" submissions come from signed-out visitors
+    match /accountRequests/{requestId} {
+      allow create: if request.resource.data.status == 'pending';
+      allow read, update: if can('canReviewAccountRequests');
+    }
+
+    match /rolePermissions/{role} {
+      allow read: if signedIn();
+      allow write: if can('canManageRoles');
+    }
+
+    match /settings/{settingId} {
+      allow read: if signedIn();
+      allow write: if can('canManageRoles');
+    }
+
+    // Scheduling rules (room capacity enforcement, maximum teaching loads) belong to whoever
+    // manages rooms or the whole timetable
+    match /settings/scheduling {
+      allow write: if can('canManageRooms') || (can('canManageSchedule') && allDepartments());
+    }
+
+    // Lockouts and the "view as" audit trail cover every department
+    function canAuditLogins() {
+      return can('canManageUsers') && allDepartments();
+    }
+
+    match /loginAttempts/{attemptId} {
+      allow read, delete: if canAuditLogins();
+    }
+
+    // Written by /api/auth/impersonate only
+    match /impersonationLogs/{logId} {
+      allow read: if canAuditLogins();
+    }
+${SERVER_ONLY_COLLECTIONS.map(
+  (name) => `
+    match /${name}/{docId} {
+      allow read, write: if false;
+    }`
+).join('\n')}
+  }
+}
+`;
+};
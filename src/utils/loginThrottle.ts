@@ -0,0 +1,79 @@
+import { adminDb } from '@/utils/firebaseAdmin';
+
+// Failed attempts allowed before a temporary lockout, per username and per IP address
+export const MAX_FAILED_ATTEMPTS = { username: 5, ip: 20 };
+export const LOCKOUT_DURATION_MS = 1000 * 60 * 15;
+// Failures older than this no longer count toward a lockout
+export const FAILED_ATTEMPT_WINDOW_MS = 1000 * 60 * 15;
+
+export type AttemptType = keyof typeof MAX_FAILED_ATTEMPTS;
+
+export interface LoginAttempt {
+  type: AttemptType;
+  value: string;
+  failedCount: number;
+  lockedUntil: string | null;
+  lastFailedAt: string;
+}
+
+/**
+ * The client address as reported by our own proxy. Clients can send any of these headers themselves, so only
+ * the one named by CLIENT_IP_HEADER (default x-forwarded-for) is read, and for x-forwarded-for only the last
+ * entry, which the proxy appends. Set it to the header the deployment's proxy overwrites, e.g. x-real-ip.
+ */
+export const getClientIp = (request: { headers: Headers }) => {
+  const header = (process.env.CLIENT_IP_HEADER || 'x-forwarded-for').toLowerCase();
+  const value = request.headers.get(header);
+  const ip = header === 'x-forwarded-for' ? value?.split(',').pop() : value;
+  return ip?.trim() || 'unknown';
+};
+
+// Document ids cannot contain "/", so encode the value
+const attemptRef = (type: AttemptType, value: string) =>
+  adminDb.collection('loginAttempts').doc(`${type}_${encodeURIComponent(value.toLowerCase())}`);
+
+// Returns the lockout expiry if the username or IP is currently locked
+export const getActiveLockout = async (username: string, ip: string): Promise<Date | null> => {
+  const snaps = await adminDb.getAll(attemptRef('username', username), attemptRef('ip', ip));
+  const now = Date.now();
+  const lockedUntil = snaps
+    .map((snap) => snap.data()?.lockedUntil as string | null | undefined)
+    .filter((until): until is string => !!until && new Date(until).getTime() > now)
+    .map((until) => new Date(until));
+  return lockedUntil.length > 0 ? new Date(Math.max(...lockedUntil.map((d) => d.getTime()))) : null;
+};
+
+// Count a failed attempt against both the username and the IP, locking either when over the limit
+export const recordFailedAttempt = async (username: string, ip: string) => {
+  const targets: [AttemptType, string][] = [['username', username], ['ip', ip]];
+  await adminDb.runTransaction(async (tx) => {
+    const refs = targets.map(([type, value]) => attemptRef(type, value));
+    const snaps = await Promise.all(refs.map((ref) => tx.get(ref)));
+    const now = new Date();
+    snaps.forEach((snap, i) => {
+      const [type, value] = targets[i];
+      const previous = snap.data() as LoginAttempt | undefined;
+      // Start counting again once an earlier lockout has expired or the last failure is outside the window
+      const expired =
+        (previous?.lockedUntil && new Date(previous.lockedUntil) <= now) ||
+        (previous && now.getTime() - new Date(previous.lastFailedAt).getTime() > FAILED_ATTEMPT_WINDOW_MS);
+      const failedCount = (expired ? 0 : previous?.failedCount ?? 0) + 1;
+      const attempt: LoginAttempt = {
+        type,
+        value,
+        failedCount,
+        lockedUntil:
+          failedCount >= MAX_FAILED_ATTEMPTS[type]
+            ? new Date(now.getTime() + LOCKOUT_DURATION_MS).toISOString()
+            : null,
+        lastFailedAt: now.toISOString(),
+      };
+      tx.set(refs[i], attempt);
+    });
+  });
+};
+
+// A successful login clears the username counter; the IP counter resets once its failures fall outside the window
+export const clearFailedAttempts = async (username: string) => {
+  await attemptRef('username', username).delete();
+};
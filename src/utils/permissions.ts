@@ -0,0 +1,8 @@
+import { adminDb } from '@/utils/firebaseAdmin';
+import { mergePermissions, PermissionMatrix } from '@/utils/roles';
+
+// Live permission matrix for route handlers (Firestore overrides on top of the ROLES defaults)
+export const getPermissionMatrix = async (): Promise<PermissionMatrix> => {
+  const snapshot = await adminDb.collection('rolePermissions').get();
+  return mergePermissions(Object.fromEntries(snapshot.docs.map((d) => [d.id, d.data()])));
+};
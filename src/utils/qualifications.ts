@@ -0,0 +1,15 @@
+// A teacher a dept head has cleared to teach a subject; one document per pair in teacherQualifications
+export interface TeacherQualification {
+  id?: string;
+  teacherId: string;
+  subjectId: string;
+  departmentId: string; // The subject's department, which decides who may change the pair
+  createdAt: string;
+  createdBy: string;
+}
+
+// Deterministic ids make toggling a pair idempotent
+export const getQualificationId = (teacherId: string, subjectId: string) => `${teacherId}_${subjectId}`;
+
+export const isQualified = (qualifications: TeacherQualification[], teacherId: string, subjectId: string) =>
+  qualifications.some((q) => q.teacherId === teacherId && q.subjectId === subjectId);
@@ -0,0 +1,12 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Reset links are valid for 72 hours and can only be used once
+export const RESET_TOKEN_TTL_MS = 1000 * 60 * 60 * 72;
+
+// Only the SHA-256 hash of a token is stored, so a leaked document cannot be replayed
+export const hashResetToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const generateResetToken = () => {
+  const token = randomBytes(32).toString('hex');
+  return { token, tokenHash: hashResetToken(token) };
+};
@@ -1,76 +1,181 @@
-export type Role = 'admin' | 'registrar' | 'dept_head' | 'teacher';
+/** Roles shipped with the app; admins can define additional ones (see `rolePermissions` in Firestore) */
+export type BuiltInRole = 'admin' | 'registrar' | 'dept_head' | 'teacher';
+export type Role = string;
 
-interface RolePermissions {
+/** 'department' roles only see and manage data from their own department */
+export type DepartmentScope = 'all' | 'department';
+
+export interface RolePermissions {
   canManageUsers: boolean;
   canManageAllDepartments: boolean;
   canManageSubjects: boolean;
   canManageSchedule: boolean;
   canManageCalendar: boolean;
   canApproveSchedule: boolean;
+  canReviewAccountRequests: boolean;
+  canManageRoles: boolean;
+  canManageRooms: boolean;
+  // Role metadata
+  label?: string;
+  departmentScope?: DepartmentScope;
+  custom?: boolean; // Defined by an admin rather than built in
   restrictedRoles?: string[];
   allowedRoles?: string[];
 }
 
-export const getUserRoleOptions = (currentUserRole: Role, currentUserDept?: string) => {
-  const options: Role[] = [];
-
-  switch (currentUserRole) {
-    case 'admin':
-      return Object.keys(ROLES) as Role[];
-    case 'registrar':
-      return ['registrar', 'dept_head', 'teacher'];
-    case 'dept_head':
-      return ['teacher'];
-    default:
-      return [];
-  }
+export type PermissionKey = Exclude<
+  keyof RolePermissions,
+  'label' | 'departmentScope' | 'custom' | 'restrictedRoles' | 'allowedRoles'
+>;
+
+/** Dashboard areas (tab ids / sub-routes) and the permission each one requires */
+export const AREA_PERMISSIONS: Record<string, PermissionKey> = {
+  schedule: 'canManageSchedule',
+  approve: 'canApproveSchedule',
+  users: 'canManageUsers',
+  subjects: 'canManageSubjects',
+  calendar: 'canManageCalendar',
+  requests: 'canReviewAccountRequests',
+  roles: 'canManageRoles',
+  rooms: 'canManageRooms',
+  sections: 'canManageSubjects',
+  qualifications: 'canManageSubjects',
+};
+
+/** Landing tab for a role: the first area it may open, or Security, which every role has */
+export const getDefaultArea = (permissions: PermissionMatrix, role: Role) =>
+  Object.keys(AREA_PERMISSIONS).find((area) => permissions[role]?.[AREA_PERMISSIONS[area]]) ?? 'security';
+
+/** Human-readable labels for the "Roles & Permissions" screen */
+export const PERMISSION_LABELS: Record<PermissionKey, string> = {
+  canManageUsers: 'Manage users',
+  canManageAllDepartments: 'Manage all departments',
+  canManageSubjects: 'Manage subjects',
+  canManageSchedule: 'Manage schedules',
+  canManageCalendar: 'Manage calendar',
+  canApproveSchedule: 'Approve own schedules',
+  canReviewAccountRequests: 'Review account requests',
+  canManageRoles: 'Manage roles & permissions',
+  canManageRooms: 'Manage rooms',
+};
+
+export type PermissionMatrix = Record<Role, RolePermissions>;
+
+/** Starting point for custom roles: no permissions, limited to their own department */
+export const EMPTY_ROLE: RolePermissions = {
+  canManageUsers: false,
+  canManageAllDepartments: false,
+  canManageSubjects: false,
+  canManageSchedule: false,
+  canManageCalendar: false,
+  canApproveSchedule: false,
+  canReviewAccountRequests: false,
+  canManageRoles: false,
+  canManageRooms: false,
+  departmentScope: 'department',
 };
 
-export const canEditUser = (currentUserRole: Role, targetUserRole: Role, currentUserDept?: string, targetUserDept?: string) => {
-  if (currentUserRole === 'admin') return true;
-  if (currentUserRole === 'registrar' && targetUserRole !== 'admin') return true;
-  
-  if (currentUserRole === 'dept_head') {
-    // Dept head can only manage teachers in their department
-    return targetUserRole === 'teacher' && currentUserDept === targetUserDept;
-  }
+export const isBuiltInRole = (role: Role): role is BuiltInRole => role in ROLES;
+
+/**
+ * Apply the overrides stored in Firestore (`rolePermissions/{role}`) on top of the defaults in ROLES.
+ * Documents for roles that are not built in become custom roles.
+ */
+export const mergePermissions = (overrides: Record<Role, Partial<RolePermissions>>): PermissionMatrix => {
+  const roles = Array.from(new Set([...Object.keys(ROLES), ...Object.keys(overrides)]));
+  return roles.reduce((matrix, role) => {
+    const defaults = isBuiltInRole(role) ? ROLES[role] : { ...EMPTY_ROLE, custom: true };
+    matrix[role] = { ...defaults, ...overrides[role] };
+    return matrix;
+  }, {} as PermissionMatrix);
+};
+
+export const getRoleLabel = (permissions: PermissionMatrix, role: Role) => permissions[role]?.label || role;
+
+export const isDepartmentScoped = (permissions: PermissionMatrix, role: Role) =>
+  permissions[role]?.departmentScope === 'department';
+
+/**
+ * Roles a user may assign: everything except `restrictedRoles`, or only `allowedRoles` when set.
+ * Roles that can manage roles are only assignable by users who can do so themselves.
+ */
+export const getUserRoleOptions = (permissions: PermissionMatrix, currentUserRole: Role): Role[] => {
+  const current = permissions[currentUserRole];
+  if (!current?.canManageUsers) return [];
+
+  return Object.keys(permissions).filter((role) => {
+    if (current.allowedRoles && !current.allowedRoles.includes(role)) return false;
+    if (current.restrictedRoles?.includes(role)) return false;
+    return current.canManageRoles || !permissions[role].canManageRoles;
+  });
+};
 
-  return false;
+export const canEditUser = (
+  permissions: PermissionMatrix,
+  currentUserRole: Role,
+  targetUserRole: Role,
+  currentUserDept?: string,
+  targetUserDept?: string
+) => {
+  if (!getUserRoleOptions(permissions, currentUserRole).includes(targetUserRole)) return false;
+  // Department-scoped roles (e.g. dept head) can only manage users in their department
+  return !isDepartmentScoped(permissions, currentUserRole) || currentUserDept === targetUserDept;
 };
 
-export const ROLES: Record<Role, RolePermissions> = {
+/** Default permission matrix, used as the seed for (and fallback to) the live matrix in Firestore */
+export const ROLES: Record<BuiltInRole, RolePermissions> = {
   admin: {
+    label: 'Administrator',
+    departmentScope: 'all',
     canManageUsers: true,
     canManageAllDepartments: true,
     canManageSubjects: true,
     canManageSchedule: true,
     canManageCalendar: true,
     canApproveSchedule: false,
+    canReviewAccountRequests: true,
+    canManageRoles: true,
+    canManageRooms: true,
   },
   registrar: {
+    label: 'Registrar',
+    departmentScope: 'all',
     canManageUsers: true,
     canManageAllDepartments: false,
     canManageSubjects: true,
     canManageSchedule: true,
     canManageCalendar: true,
     canApproveSchedule: false,
+    canReviewAccountRequests: true,
+    canManageRoles: false,
+    canManageRooms: true,
     restrictedRoles: ['admin'], // Cannot manage admin accounts
   },
   dept_head: {
+    label: 'Department Head',
+    departmentScope: 'department',
     canManageUsers: true,
     canManageAllDepartments: false,
     canManageSubjects: true,
     canManageSchedule: true,
     canManageCalendar: false,
     canApproveSchedule: false,
+    canReviewAccountRequests: false,
+    canManageRoles: false,
+    canManageRooms: false,
     allowedRoles: ['teacher'], // Can only manage teachers
   },
   teacher: {
+    label: 'Teacher',
+    departmentScope: 'department',
     canManageUsers: false,
     canManageAllDepartments: false,
     canManageSubjects: true,
     canManageSchedule: false,
     canManageCalendar: true,
     canApproveSchedule: true,
+    canReviewAccountRequests: false,
+    canManageRoles: false,
+    canManageRooms: false,
   },
 };
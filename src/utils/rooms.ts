@@ -0,0 +1,57 @@
+import { timeToMinutes } from '@/lib/scheduling/conflicts';
+
+export type RoomType = 'lecture' | 'lab' | 'computer_lab' | 'gym' | 'other';
+
+export interface Room {
+  id?: string;
+  code: string; // Unique; stored in Schedule.room
+  building: string;
+  capacity: number;
+  type: RoomType;
+  availableFrom?: string; // "HH:mm"; the room can't be booked outside these hours
+  availableTo?: string;
+  createdAt: string;
+}
+
+export const ROOM_TYPE_LABELS: Record<RoomType, string> = {
+  lecture: 'Lecture',
+  lab: 'Laboratory',
+  computer_lab: 'Computer Lab',
+  gym: 'Gym',
+  other: 'Other',
+};
+
+export const getRoomLabel = (room: Room) => `${room.code} - ${room.building} (${ROOM_TYPE_LABELS[room.type]}, ${room.capacity} seats)`;
+
+// e.g. "RM 101 seats 20, but the section has 45 students", or null when everyone fits
+export const getCapacityWarning = (room: Room | undefined, students: number | undefined): string | null =>
+  room && students && students > room.capacity
+    ? `${room.code} seats ${room.capacity}, but the section has ${students} students.`
+    : null;
+
+/**
+ * Reasons a booking doesn't suit the room: the wrong type for the subject, or outside the room's
+ * available hours. These are warnings; the scheduler may still go ahead.
+ */
+export const getRoomWarnings = (
+  room: Room | undefined,
+  booking: { startTime: string; endTime: string },
+  requiredType?: RoomType
+): string[] => {
+  if (!room) return [];
+  const warnings: string[] = [];
+  if (requiredType && room.type !== requiredType) {
+    warnings.push(`${room.code} is a ${ROOM_TYPE_LABELS[room.type]} room, but the subject needs ${ROOM_TYPE_LABELS[requiredType]}.`);
+  }
+  if (
+    room.availableFrom &&
+    room.availableTo &&
+    booking.startTime &&
+    booking.endTime &&
+    (timeToMinutes(booking.startTime) < timeToMinutes(room.availableFrom) ||
+      timeToMinutes(booking.endTime) > timeToMinutes(room.availableTo))
+  ) {
+    warnings.push(`${room.code} is only available ${room.availableFrom}-${room.availableTo}.`);
+  }
+  return warnings;
+};
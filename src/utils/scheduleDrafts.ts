@@ -0,0 +1,104 @@
+// Named working copy of a term's timetable; only published drafts are visible to teachers
+export type DraftStatus = 'draft' | 'published' | 'archived';
+
+export interface ScheduleDraft {
+  id?: string;
+  name: string; // e.g. "1st Sem 2026-2027 draft 2"
+  termId?: string; // academicTerms id; publishing a draft archives the term's previously published one
+  status: DraftStatus;
+  createdAt: string;
+  createdBy: string;
+  publishedAt?: string;
+  publishedBy?: string;
+}
+
+export const DRAFT_STATUS_LABELS: Record<DraftStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+/**
+ * Whether an entry is part of the live timetable, given one term's drafts. Entries created before
+ * drafts existed have no `draftId` and stay live until a draft of their term is published.
+ */
+export const isPublishedSchedule = (schedule: { draftId?: string }, drafts: ScheduleDraft[]): boolean => {
+  const published = drafts.filter((d) => d.status === 'published');
+  if (!schedule.draftId) return published.length === 0;
+  return published.some((d) => d.id === schedule.draftId);
+};
+
+interface ComparableSchedule {
+  subjectId: string;
+  teacherId: string;
+  room: string;
+  sectionId?: string;
+  days: string[];
+  startTime: string;
+  endTime: string;
+}
+
+// One subject meeting on one day, the unit two versions of a timetable are compared by
+export interface ScheduleMeeting {
+  key: string;
+  subjectId: string;
+  day: string;
+  teacherId: string;
+  room: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ScheduleComparison {
+  added: ScheduleMeeting[];
+  removed: ScheduleMeeting[];
+  changed: { before: ScheduleMeeting; after: ScheduleMeeting }[];
+}
+
+const toMeetings = (schedules: ComparableSchedule[]): Map<string, ScheduleMeeting> => {
+  const meetings = new Map<string, ScheduleMeeting>();
+  const sorted = [...schedules].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  for (const sch of sorted) {
+    for (const day of sch.days) {
+      // A subject meeting twice on the same day gets a numbered key per meeting
+      const base = `${sch.subjectId}|${sch.sectionId ?? ''}|${day}`;
+      let key = base;
+      for (let n = 2; meetings.has(key); n++) key = `${base}|${n}`;
+      meetings.set(key, {
+        key,
+        subjectId: sch.subjectId,
+        day,
+        teacherId: sch.teacherId,
+        room: sch.room,
+        startTime: sch.startTime,
+        endTime: sch.endTime,
+      });
+    }
+  }
+  return meetings;
+};
+
+// Differences going from `base` to `target`, per subject meeting
+export const compareSchedules = (base: ComparableSchedule[], target: ComparableSchedule[]): ScheduleComparison => {
+  const before = toMeetings(base);
+  const after = toMeetings(target);
+  const comparison: ScheduleComparison = { added: [], removed: [], changed: [] };
+
+  after.forEach((meeting, key) => {
+    const previous = before.get(key);
+    if (!previous) {
+      comparison.added.push(meeting);
+    } else if (
+      previous.teacherId !== meeting.teacherId ||
+      previous.room !== meeting.room ||
+      previous.startTime !== meeting.startTime ||
+      previous.endTime !== meeting.endTime
+    ) {
+      comparison.changed.push({ before: previous, after: meeting });
+    }
+  });
+  before.forEach((meeting, key) => {
+    if (!after.has(key)) comparison.removed.push(meeting);
+  });
+  return comparison;
+};
@@ -0,0 +1,19 @@
+// Teacher response to an assigned schedule entry
+export type ScheduleStatus = 'pending' | 'accepted' | 'declined';
+
+export const SCHEDULE_STATUS_LABELS: Record<ScheduleStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+};
+
+// Calendar event colours per status
+export const SCHEDULE_STATUS_COLORS: Record<ScheduleStatus, string> = {
+  pending: '#f59e0b',
+  accepted: '#10b981',
+  declined: '#ef4444',
+};
+
+// Entries created before the workflow existed only have the `approved` flag
+export const getScheduleStatus = (schedule: { status?: ScheduleStatus; approved?: boolean }): ScheduleStatus =>
+  schedule.status ?? (schedule.approved ? 'accepted' : 'pending');
@@ -0,0 +1,35 @@
+import { LoadLimit } from '@/lib/scheduling/load';
+
+// School-wide scheduling rules, stored in the settings/scheduling document
+
+// 'hard' blocks a booking that breaks the rule; 'soft' warns and lets the scheduler confirm
+export type EnforcementLevel = 'hard' | 'soft';
+
+export type EmploymentType = 'full_time' | 'part_time';
+
+export interface SchedulingSettings {
+  capacityEnforcement: EnforcementLevel; // Sections larger than the room's capacity
+  maxLoad: Record<EmploymentType, LoadLimit>; // Weekly teaching load allowed per employment type
+}
+
+export const DEFAULT_SCHEDULING_SETTINGS: SchedulingSettings = {
+  capacityEnforcement: 'soft',
+  maxLoad: {
+    full_time: { hours: 24, units: 24 },
+    part_time: { hours: 12, units: 12 },
+  },
+};
+
+export const ENFORCEMENT_LABELS: Record<EnforcementLevel, string> = {
+  hard: 'Block the booking',
+  soft: 'Warn, but allow it',
+};
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  full_time: 'Full-time',
+  part_time: 'Part-time',
+};
+
+// Teachers created before employment types existed count as full-time
+export const getEmploymentType = (teacher: { employmentType?: EmploymentType }): EmploymentType =>
+  teacher.employmentType ?? 'full_time';
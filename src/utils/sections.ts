@@ -0,0 +1,22 @@
+// A block of students who take their classes together, e.g. "BSIT 2-A"
+export interface Section {
+  id?: string;
+  departmentId: string;
+  courseId: string;
+  courseCode: string; // Copied from the course so labels don't need a courses lookup
+  yearLevel: string;
+  block: string; // e.g. "A"
+  size: number; // Number of students
+  createdAt: string;
+}
+
+export const getSectionLabel = (section: Pick<Section, 'courseCode' | 'yearLevel' | 'block'>) =>
+  `${section.courseCode} ${section.yearLevel}-${section.block}`;
+
+export const sortSections = (sections: Section[]) =>
+  [...sections].sort(
+    (a, b) =>
+      a.courseCode.localeCompare(b.courseCode) ||
+      a.yearLevel.localeCompare(b.yearLevel, undefined, { numeric: true }) ||
+      a.block.localeCompare(b.block)
+  );
@@ -0,0 +1,120 @@
+import type { NextResponse } from 'next/server';
+import { Role } from '@/utils/roles';
+
+// Name of the HTTP-only cookie holding the signed session token
+export const SESSION_COOKIE = 'mcti_session';
+
+// Short-lived cookie issued after the password check when a second factor is still needed
+export const TWO_FACTOR_COOKIE = 'mcti_2fa_challenge';
+
+// Sessions last for 8 hours (one school day); 2FA challenges for 5 minutes
+export const SESSION_MAX_AGE = 60 * 60 * 8;
+export const TWO_FACTOR_MAX_AGE = 60 * 5;
+
+// A challenge token must never be accepted as a session (and vice versa)
+export type TokenPurpose = 'session' | '2fa_challenge';
+
+// Set while an admin is viewing the dashboard as another user ("view as")
+export interface Impersonation {
+  adminId: string;
+  logId: string; // impersonationLogs document for this session
+  username: string; // Username of the user being viewed, for the banner
+}
+
+export interface SessionPayload {
+  userId: string;
+  role: Role;
+  departmentId: string;
+  twoFactorSetupRequired?: boolean; // Role policy requires 2FA but the user has not enrolled yet
+  impersonation?: Impersonation; // userId/role/departmentId then belong to the impersonated user
+  purpose: TokenPurpose;
+  exp: number; // Expiry as a unix timestamp (seconds)
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Base64url helpers (work in both the Node and Edge runtimes)
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+const getKey = async () => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+};
+
+// Create a token of the form "<payload>.<signature>" signed with HMAC-SHA256
+export const createSessionToken = async (
+  session: Omit<SessionPayload, 'exp' | 'purpose'>,
+  maxAge: number = SESSION_MAX_AGE,
+  purpose: TokenPurpose = 'session'
+): Promise<string> => {
+  const payload: SessionPayload = { ...session, purpose, exp: Math.floor(Date.now() / 1000) + maxAge };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+// Returns the session payload, or null if the token is malformed, tampered with, expired or for another purpose
+export const verifySessionToken = async (
+  token?: string | null,
+  purpose: TokenPurpose = 'session'
+): Promise<SessionPayload | null> => {
+  if (!token) return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as SessionPayload;
+    if (!payload.exp || payload.exp < Math.floor(Date.now() / 1000)) return null;
+    if (payload.purpose !== purpose) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+// Cookie options shared by every route that sets the session cookie
+export const sessionCookieOptions = (maxAge: number = SESSION_MAX_AGE) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge,
+});
+
+// Read and verify the session cookie from an incoming request
+export const getRequestSession = (request: { cookies: { get: (name: string) => { value: string } | undefined } }) =>
+  verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+// Sign a session and attach it to a route handler response
+export const setSessionCookie = async (
+  response: NextResponse,
+  session: Omit<SessionPayload, 'exp' | 'purpose'>
+) => {
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(session), sessionCookieOptions());
+};
@@ -0,0 +1,72 @@
+import { minutesToTime, timeToMinutes, UnavailableBlock } from '@/lib/scheduling/conflicts';
+import { SCHOOL_DAY_END, SCHOOL_DAY_START, SLOT_STEP_MINUTES, TimeBlock } from '@/lib/scheduling/slots';
+
+// When a teacher can't teach, and when they would rather teach, stored in teacherAvailability/{teacherId}
+export interface TeacherAvailability {
+  teacherId: string;
+  departmentId: string;
+  unavailable: Record<string, TimeBlock[]>; // Per day; enforced as conflicts
+  preferred: Record<string, TimeBlock[]>; // Per day; only used to rank suggestions
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export type CellState = 'available' | 'preferred' | 'unavailable';
+
+export const AVAILABILITY_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Start times of the grid rows, one per slot step across the school day
+export const AVAILABILITY_TIMES = Array.from(
+  { length: (timeToMinutes(SCHOOL_DAY_END) - timeToMinutes(SCHOOL_DAY_START)) / SLOT_STEP_MINUTES },
+  (_, i) => minutesToTime(timeToMinutes(SCHOOL_DAY_START) + i * SLOT_STEP_MINUTES)
+);
+
+// Grid cells keyed "Monday|08:00", from the stored blocks
+export const blocksToCells = (availability?: Pick<TeacherAvailability, 'unavailable' | 'preferred'>) => {
+  const cells: Record<string, CellState> = {};
+  for (const state of ['preferred', 'unavailable'] as const) {
+    for (const [day, blocks] of Object.entries(availability?.[state] ?? {})) {
+      for (const block of blocks) {
+        for (const time of AVAILABILITY_TIMES) {
+          if (time >= block.startTime && time < block.endTime) cells[`${day}|${time}`] = state;
+        }
+      }
+    }
+  }
+  return cells;
+};
+
+// Merges runs of cells in the given state into blocks per day
+export const cellsToBlocks = (cells: Record<string, CellState>, state: CellState) => {
+  const blocks: Record<string, TimeBlock[]> = {};
+  for (const day of AVAILABILITY_DAYS) {
+    const dayBlocks: TimeBlock[] = [];
+    for (const time of AVAILABILITY_TIMES) {
+      if (cells[`${day}|${time}`] !== state) continue;
+      const endTime = minutesToTime(timeToMinutes(time) + SLOT_STEP_MINUTES);
+      const last = dayBlocks[dayBlocks.length - 1];
+      if (last && last.endTime === time) last.endTime = endTime;
+      else dayBlocks.push({ startTime: time, endTime });
+    }
+    if (dayBlocks.length > 0) blocks[day] = dayBlocks;
+  }
+  return blocks;
+};
+
+// Flattens every teacher's unavailable times for the conflict engine
+export const toUnavailableBlocks = (availabilities: TeacherAvailability[]): UnavailableBlock[] =>
+  availabilities.flatMap((a) =>
+    Object.entries(a.unavailable ?? {}).flatMap(([day, blocks]) => blocks.map((block) => ({ teacherId: a.teacherId, day, ...block })))
+  );
+
+// Days where the entry falls outside the teacher's preferred times; empty when they set no preferences
+export const getDaysOutsidePreferred = (
+  entry: { teacherId: string; days: string[]; startTime: string; endTime: string },
+  availability?: TeacherAvailability
+): string[] => {
+  const preferred = availability?.preferred ?? {};
+  if (!entry.teacherId || !entry.startTime || !entry.endTime || Object.keys(preferred).length === 0) return [];
+  return entry.days.filter(
+    (day) => !(preferred[day] ?? []).some((block) => block.startTime <= entry.startTime && entry.endTime <= block.endTime)
+  );
+};
@@ -0,0 +1,10 @@
+import { EmploymentType } from '@/utils/schedulingSettings';
+
+// The fields of a `users` document with role "teacher" that the scheduling screens read
+export interface Teacher {
+  id: string;
+  firstName: string;
+  lastName: string;
+  departmentId?: string;
+  employmentType?: EmploymentType;
+}
@@ -0,0 +1,39 @@
+import { adminDb } from '@/utils/firebaseAdmin';
+import { Role } from '@/utils/roles';
+import { hashBackupCode, verifyTotp } from '@/utils/totp';
+
+// Stored in its own collection so secrets never travel with the user documents the dashboard reads
+export interface TwoFactorRecord {
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string; // Generated during enrollment, promoted to `secret` once a code is confirmed
+  backupCodes?: string[]; // SHA-256 hashes of unused backup codes
+  enabledAt?: string;
+}
+
+export const twoFactorRef = (userId: string) => adminDb.collection('twoFactor').doc(userId);
+
+export const getTwoFactorRecord = async (userId: string) =>
+  (await twoFactorRef(userId).get()).data() as TwoFactorRecord | undefined;
+
+// Roles that must use 2FA, maintained by admins in settings/security
+export const getRequiredTwoFactorRoles = async (): Promise<Role[]> => {
+  const snap = await adminDb.collection('settings').doc('security').get();
+  return (snap.data()?.twoFactorRequiredRoles as Role[] | undefined) ?? [];
+};
+
+// Accept either a current TOTP code or an unused backup code (which is consumed)
+export const verifySecondFactor = async (userId: string, code: string): Promise<boolean> => {
+  const ref = twoFactorRef(userId);
+  return adminDb.runTransaction(async (tx) => {
+    const record = (await tx.get(ref)).data() as TwoFactorRecord | undefined;
+    if (!record?.enabled || !record.secret) return false;
+    if (verifyTotp(record.secret, code)) return true;
+
+    const hash = hashBackupCode(code);
+    const backupCodes = record.backupCodes ?? [];
+    if (!backupCodes.includes(hash)) return false;
+    tx.update(ref, { backupCodes: backupCodes.filter((c) => c !== hash) });
+    return true;
+  });
+};
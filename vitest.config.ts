@@ -0,0 +1,13 @@
+import { resolve } from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': resolve(__dirname, 'src') },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Security rules tests need the Firestore emulator; run them with `npm run test:rules`
+    exclude: ['src/**/*.rules.test.ts', 'node_modules/**'],
+  },
+});
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+import baseConfig from './vitest.config';
+
+// Not mergeConfig: it concatenates arrays, which would keep the base config's exclusion of these tests
+export default defineConfig({
+  resolve: baseConfig.resolve,
+  test: {
+    include: ['src/**/*.rules.test.ts'],
+    exclude: ['node_modules/**'],
+    // Every test talks to the same emulator
+    fileParallelism: false,
+  },
+});